@@ -15,6 +15,23 @@ interface IConfig {
   // Maximum number of bytes that Clarity can send per page overall
   totalLimit?: number;
 
+  // Maximum number of bytes of undelivered payloads that Clarity keeps on the device to replay on the next page load
+  // Setting it to 0 disables keeping undelivered payloads between page loads
+  storageLimit?: number;
+
+  // Maximum number of milliseconds, for which undelivered payloads are kept on the device
+  storageMaxAge?: number;
+
+  // Number of milliseconds before the first retry of an undelivered payload
+  // Each following retry doubles the delay, up to the retryMaxDelay
+  retryDelay?: number;
+
+  // Maximum number of milliseconds between two retries of an undelivered payload
+  retryMaxDelay?: number;
+
+  // Maximum number of times Clarity retries an undelivered payload, before giving up on it
+  retryLimit?: number;
+
   // If set to false, text on the page will be masked with asterisks
   showText?: boolean;
 
@@ -28,27 +45,179 @@ interface IConfig {
   // Send back instrumentation data, if set to true
   instrument?: boolean;
 
+  // If set to true, payloads are compressed and uploaded by a web worker to keep the main thread responsive
+  // Where workers are unavailable or blocked by CSP, compression runs on the main thread in slices of timeToYield
+  useWorker?: boolean;
+
   // Pointer to the function which would be responsible for sending the data
   // If left unspecified, raw payloads will be uploaded to the uploadUrl endpoint
+  // Handler is expected to invoke one of the callbacks, once the delivery outcome is known
   uploadHandler?: UploadHandler;
 
+  // Name of the codec that encodes payloads: "none", "lz-base64", "gzip-base64" or one registered through registerCodec
+  // If the codec is unknown or not supported by the browser, payloads are encoded with "lz-base64"
+  codec?: string;
+
+  // Pointer to the function which is invoked with the envelope of each payload right before it's uploaded
+  onBeforeUpload?: BeforeUploadHandler;
+
+  // Pointer to the function which is invoked with the outcome of each upload attempt
+  onUploadResult?: UploadResultHandler;
+
+  // If set to true, events are uploaded as positional arrays described by a versioned schema instead of objects
+  // Backends that haven't been updated yet can restore the objects with the reference decoder
+  compactEvents?: boolean;
+
+  // Budgets of the event types, which limit how many events of the type are recorded per second and per impression,
+  // and how many bytes they take per minute. Events over the budget are dropped and counted, and the recording goes on.
+  // Types that aren't listed keep their default budget, while types set to null and limits that aren't set are unlimited
+  budgets?: { [type: string]: IEventBudget };
+
+  // Number of milliseconds between the reports of the events that were dropped for being over budget
+  budgetReportInterval?: number;
+
+  // Number of milliseconds between the reports of the time that Clarity has spent on the main thread
+  // Report that is due goes out along with the next event, so a page without activity doesn't upload it
+  profileReportInterval?: number;
+
+  // Maximum number of milliseconds per second that Clarity can spend on the main thread, averaged over each report.
+  // Once it's exceeded, the plugin that took the most time is suspended for the rest of the impression.
+  // If left unspecified, Clarity's time is only reported
+  cpuBudget?: number;
+
+  // Chain of functions that every event goes through before it's batched for upload
+  // Each processor can return the same event, a modified copy of it, or null to drop the event
+  processors?: EventProcessor[];
+
+  // User's consent to recording. While consent is pending, events are kept in memory,
+  // nothing is uploaded and no cookie is written. Denied consent tears Clarity down.
+  consent?: ConsentMode;
+
+  // Maximum number of event bytes that Clarity keeps in memory while consent is pending
+  consentBufferLimit?: number;
+
+  // Number of milliseconds of inactivity across all tabs of the origin, after which session ends
+  sessionTimeout?: number;
+
+  // Maximum number of milliseconds that a single session can last, regardless of activity
+  sessionMaxDuration?: number;
+
+  // Where clarityId is kept between page loads: in a cookie, in sessionStorage or in memory only
+  // If the configured storage is unavailable, Clarity falls back to the next one in that order
+  identityMode?: IdentityMode;
+
+  // Name of the cookie that keeps clarityId
+  cookieName?: string;
+
+  // Domain of the cookie that keeps clarityId. If left empty, cookie is set for the current host only
+  cookieDomain?: string;
+
+  // Number of days before the cookie expires. If set to 0, cookie expires at the end of the browser session
+  cookieExpiry?: number;
+
+  // SameSite attribute of the cookie: "Strict", "Lax" or "None". If left empty, browser default applies
+  cookieSameSite?: string;
+
+  // If set to true, cookie is only sent over secure connections
+  cookieSecure?: boolean;
+
+  // Root of the DOM subtree that Clarity records. If left unspecified, the whole document is recorded
+  // Roots of the recorders running on the same page can't overlap
+  root?: Node;
+
   // Setting to enable debug features (e.g. console.log statements)
   debug?: boolean;
 
-  // Active plugins
+  // Active plugins: built-in ones and the ones registered through registerPlugin
+  // Plugins run after the plugins they depend on, and plugins whose dependencies aren't in the list don't run at all
   plugins?: string[];
+
+  // Number of exceptions, after which a plugin is torn down for the rest of the impression
+  // Plugin that throws while it starts is torn down right away
+  pluginErrorLimit?: number;
+
+  // Options of each plugin, by plugin name, which the plugin receives on reset
+  // Options of the built-in plugins that are left unspecified keep their default values
+  pluginOptions?: IPluginOptions;
+
+  // Fraction of impressions that are recorded, between 0 and 1
+  // Lowering the rate of a running recorder keeps recording only the share of impressions that fits the new rate,
+  // while raising it applies from the next start, since impressions outside of the old sample aren't running
+  sampleRate?: number;
+
+  // Endpoint of the remote config document, through which a deployed recorder can be turned off or reconfigured.
+  // Recording starts once the document arrives, or once the timeout runs out, in which case the last valid copy applies.
+  // Newer versions of the document can also arrive in the body of upload responses. If left empty, remote config is off
+  remoteConfigUrl?: string;
+
+  // Maximum number of milliseconds that the recorder waits for the remote config document on start
+  remoteConfigTimeout?: number;
 }
 
 /* ##################################### */
 /* #############   CORE   ############## */
 /* ##################################### */
 
+// Compression streams that gzip codec uses aren't part of the DOM typings available to this project
+declare const CompressionStream: any;
+declare const DecompressionStream: any;
+
 declare const enum State {
   Loaded,
   Activated,
   Unloaded
 }
 
+// State of a single recorder, which core keeps aside while other recorders on the page are running
+interface ICoreContext {
+  config: IConfig;
+  state: State;
+  bytes: string[];
+  sentBytesCount: number;
+  cid: string;
+  identityMode: IdentityMode;
+  impressionId: string;
+  sequence: number;
+  eventCount: number;
+  startTime: number;
+  root: Node;
+  session: ISession;
+  activePlugins: IActivePlugin[];
+  quarantinedPlugins: string[];
+  bindings: IBindingContainer;
+  subscribers: IEventHandlerContainer;
+  droppedPayloads: { [key: string]: IDroppedPayloadInfo };
+  retryTimes: { [key: string]: number };
+  retryTimeout: number;
+  heartbeatTimeout: number;
+  retryBlockedUntil: number;
+  retryInProgress: boolean;
+  retriesPaused: boolean;
+  timeout: number;
+  nextPayload: string[];
+  nextPayloadLength: number;
+  nextPayloadXhrErrorsOnly: boolean;
+  nextPayloadFirstEventId: number;
+  nextPayloadLastEventId: number;
+  priorityEvents: IBufferedEvent[]; /* Priority events that wait for the next priority upload */
+  priorityTimeout: number;
+  payloadStatuses: PayloadStatus[];
+  deliveredEventCount: number;
+  budgetState: IBudgetState;
+  budgetTimeout: number;
+  profilerState: IProfilerState;
+  profileTimeout: number;
+  consent: ConsentMode;
+  consentBuffer: IBufferedEvent[];
+  consentBufferLength: number;
+  consentBufferDroppedCount: number;
+  paused: boolean;
+  pauseStart: number;
+  pauseIntervals: IPauseInterval[];
+  remoteConfigPending: boolean; /* Whether the recorder is waiting for the remote config document to start */
+}
+
+// When envelope names a schema, events are its compact arrays instead, which the decoder turns back into objects
 interface IPayload {
   envelope: IEnvelope;
   events: IEvent[];
@@ -61,6 +230,154 @@ interface IEnvelope {
   version: string;
   time: number;
   sequenceNumber: number;
+  identityMode: IdentityMode; /* Where clarityId is kept, which tells how stable it is */
+  sessionId: string;
+  pageNumber: number; /* Sequence number of the page load within the session, starting at 1 */
+  userId?: string; /* User id provided by the host page through identify */
+  tags?: ITags; /* Tags provided by the host page through identify or setTag */
+  pauses?: IPauseInterval[]; /* Intervals, during which recording was paused, that ended since the previous payload */
+  schema?: number; /* Version of the schema that events are encoded with, if they are compact */
+  firstEventId: number; /* ID of the first event in the payload, or null if the payload has no events */
+  lastEventId: number; /* ID of the last event in the payload, or null if the payload has no events */
+  eventCount: number; /* Number of events in the payload */
+  emittedEventCount: number; /* Number of events that the impression has recorded so far */
+  deliveredEventCount: number; /* Number of events of the impression that are known to be delivered so far */
+  manifest?: IPayloadManifest; /* Outcome of every earlier payload of the impression, only sent during teardown */
+}
+
+// Sequence numbers of the payloads with each outcome, as a list of inclusive [first, last] ranges.
+// Pending payloads are the ones whose delivery is still unknown, e.g. because they are waiting for a retry.
+interface IPayloadManifest {
+  delivered: number[][];
+  pending: number[][];
+  dropped: number[][];
+}
+
+declare const enum PayloadStatus {
+  Pending,
+  Delivered,
+  Dropped
+}
+
+// Events recorded while consent is pending are kept serialized along with their IDs
+interface IBufferedEvent {
+  id: number;
+  eventStr: string;
+}
+
+interface ITags {
+  [key: string]: string;
+}
+
+interface ITraits {
+  [key: string]: TagValue;
+}
+
+interface IClarityIdentity {
+  clarityId: string;
+  mode: IdentityMode;
+}
+
+interface ICookieAttributes {
+  expiryDays?: number;
+  domain?: string;
+  sameSite?: string;
+  secure?: boolean;
+}
+
+interface ISession {
+  sessionId: string;
+  pageNumber: number;
+}
+
+// Session state that is shared by all tabs on the same origin
+interface ISessionState {
+  id: string;
+  start: number; /* Unix timestamp of the session start */
+  lastActive: number; /* Unix timestamp of the latest activity in any of the tabs */
+  pages: number; /* Number of page loads that joined the session */
+}
+
+// Compact event is [id, time, type, ...fields], where type is the index of the event type in the schema
+// and state is spread into the positions of its fields. Events of the types that aren't in the schema,
+// or whose state doesn't fit it, are [id, time, type name, state].
+type CompactEvent = any[];
+
+interface IEventSchema {
+  version: number;
+  events: IEventTypeSchema[];
+}
+
+// Fields that hold their default value are left out of the compact event. Nested objects, like rectangles,
+// are encoded as arrays of their listed fields, where trailing fields that aren't set are left out.
+interface IEventTypeSchema {
+  type: string;
+  fields: string[];
+  defaults?: { [field: string]: any };
+  nested?: { [field: string]: string[] };
+}
+
+interface IEventBudget {
+  eventsPerSecond?: number;
+  bytesPerMinute?: number;
+  total?: number; /* Number of events per impression */
+}
+
+// Usage of a budget within the current windows, which are identified by the number of seconds and minutes since page start
+interface IBudgetUsage {
+  second: number;
+  secondEvents: number;
+  minute: number;
+  minuteBytes: number;
+  totalEvents: number;
+}
+
+interface IBudgetState {
+  usage: { [type: string]: IBudgetUsage };
+  dropped: { [type: string]: IDroppedEvents }; /* Events dropped since the previous report */
+}
+
+// Settings that the remote config document can change. Properties that the recorder doesn't know about are ignored,
+// so that documents written for newer versions still apply to the older ones.
+interface IRemoteConfig {
+  disabled?: boolean; /* Kill switch: recording stops, and doesn't start again until the document says otherwise */
+  sampleRate?: number;
+  showText?: boolean;
+  showImages?: boolean;
+  plugins?: string[];
+}
+
+interface IProfilerState {
+  usage: { [subsystem: string]: IProfileUsage };
+  groupTime: { [group: string]: number };
+  stack: string[]; /* Subsystems of the measured calls that are currently on the stack */
+  totalTime: number;
+  maxTime: number;
+  start: number; /* Time when the current profile started */
+}
+
+interface IProfileUsage {
+  totalTime: number; /* Milliseconds */
+  maxTime: number; /* Milliseconds that the longest single call took */
+  count: number;
+}
+
+interface IProfile {
+  duration: number; /* Milliseconds that the profile covers */
+  totalTime: number; /* Milliseconds spent by the outermost measured calls, i.e. by Clarity overall */
+  maxTime: number; /* Milliseconds that the longest single task of Clarity took */
+  subsystems: { [subsystem: string]: IProfileUsage };
+  groups: { [group: string]: number }; /* Milliseconds spent by each group of subsystems, e.g. layout and layout.mutations */
+}
+
+interface IDroppedEvents {
+  events: number;
+  bytes: number;
+}
+
+interface IPauseInterval {
+  start: number;
+  end: number;
 }
 
 interface IEvent {
@@ -72,26 +389,176 @@ interface IEvent {
 
 interface IDroppedPayloadInfo {
   payload: string;
+  codec?: string; /* Missing in the payloads stored by the versions that always used "lz-base64" */
+  checksum?: string; /* Missing in the payloads stored by the versions that didn't send checksums */
+  envelope: IEnvelope;
   xhrErrorState: IXhrErrorEventState;
+  time: number; /* Unix timestamp of the first delivery failure */
+  owner?: string; /* Impression of the page that keeps retrying the stored payload, while it stays open */
+  heartbeat?: number; /* Unix timestamp of the latest sign of life from the owner */
+}
+
+interface ICodec {
+  name: string;
+
+  // Codec implements at least one of the encoders. Only codecs that encode synchronously
+  // are used for the payloads sent while the page unloads, other payloads fall back to "lz-base64" then
+  encode?(payload: string): string;
+  encodeAsync?(payload: string, callback: (encoded: string) => void): void;
+
+  // If the codec relies on an API that the browser may lack, this tells whether it can be used
+  isAvailable?(): boolean;
+}
+
+interface ICompressionJob {
+  id: number;
+  payload: string;
+  codec: ICodec;
+  uploadUrl: string; /* If set, worker uploads the payload once it's compressed */
+  checksum: string; /* Checksum of the uncompressed payload, which the worker sends along with it */
+  timeToYield: number;
+  callback: CompressionCallback;
+  measure: (compress: () => void) => void; /* Measures compression that runs on the main thread */
+  compressor?: (shouldYield: () => boolean) => string;
+  compressed?: string;
+}
+
+// Status and Retry-After header are only present when the payload has been uploaded by the worker
+interface ICompressionResult {
+  compressed: string;
+  codec: string; /* Name of the codec that has encoded the payload */
+  status?: number;
+  retryAfter?: string;
+  response?: string;
+}
+
+// Worker is first asked to compress the payload and then to upload or discard it,
+// so that a payload that has been taken over by the main thread isn't uploaded twice
+interface ICompressionRequest {
+  id: number;
+  payload?: string;
+  codec?: string;
+  uploadUrl?: string;
+  checksum?: string;
+}
+
+interface ICompressionResponse {
+  id: number;
+  compressed?: string;
+  codec?: string;
+  status?: number;
+  retryAfter?: string;
+  response?: string;
 }
 
 interface IPlugin {
   activate(): void;
   teardown(): void;
-  reset(): void;
+  reset(options?: any): void; /* Receives the options from config.pluginOptions under the plugin's name */
+  pause?(): void;
+  resume?(): void;
+}
+
+// Plugins are constructed with the context of the recorder that runs them, which they use instead of importing core.
+// Its functions always record into that recorder, even when they are invoked later from the plugin's own callbacks.
+interface IPluginContext {
+  addEvent(type: string, state: any, time?: number, priority?: boolean): void;
+  bind(target: EventTarget, event: string, listener: EventListener): void; /* Removed when the plugin stops */
+  instrument(state: IInstrumentationEventState): void;
+  setTimeout(callback: () => void, timeout: number): number; /* Exceptions are handled the same way as in listeners */
+  guard<T extends Function>(callback: T): T; /* Guards a callback that the page invokes, e.g. of a MutationObserver */
+  getTimestamp(unix?: boolean, raw?: boolean): number;
+  getNodeIndex(node: Node): number; /* Index of the node in the recorded layout, or null if layout hasn't seen it */
+}
+
+interface IPluginClass {
+  new (context: IPluginContext): IPlugin;
+  dependencies?: string[]; /* Names of the plugins that have to run for this plugin to work */
+}
+
+interface IPluginOptions {
+  layout?: ILayoutOptions;
+  pointer?: IPointerOptions;
+  viewport?: IViewportOptions;
+  performance?: IPerformanceOptions;
+  [name: string]: any; /* Options of the registered plugins */
+}
+
+interface ILayoutOptions {
+  distanceThreshold?: number; /* Minimum number of pixels that element scrolls before the new position is recorded */
+}
+
+interface IPointerOptions {
+  distanceThreshold?: number; /* Minimum number of pixels that pointer moves before the new position is recorded */
+  timeThreshold?: number; /* Number of milliseconds, after which pointer position is recorded even if it barely moved */
+}
+
+interface IViewportOptions {
+  distanceThreshold?: number; /* Minimum number of pixels that viewport scrolls before the new position is recorded */
+}
+
+interface IPerformanceOptions {
+  timeoutLength?: number; /* Number of milliseconds between the checks for new performance timing entries */
+}
+
+// Plugin that the recorder runs, along with the number of exceptions it has thrown so far
+interface IActivePlugin {
+  name: string;
+  plugin: IPlugin;
+  errorCount: number;
 }
 
 interface IEventBindingPair {
   target: EventTarget;
   listener: EventListener;
+  plugin?: IPlugin; /* Plugin that owns the binding, which is removed when the plugin stops while recording goes on */
 }
 
 interface IBindingContainer {
   [key: string]: IEventBindingPair[];
 }
 
-type UploadCallback = (status: number) => void;
-type UploadHandler = (payload: string, onSuccess?: UploadCallback, onFailure?: UploadCallback) => void;
+// Retry-After is the number of milliseconds, for which the server asked to hold off the following uploads
+// Response is the body of a successful upload response, which may carry a new version of the remote config document
+type UploadCallback = (status: number, retryAfter?: number, response?: string) => void;
+type UploadHandler = (payload: string, onSuccess?: UploadCallback, onFailure?: UploadCallback, codec?: string,
+                      checksum?: string) => void;
+type BeforeUploadHandler = (envelope: IEnvelope) => void;
+type UploadResultHandler = (result: IUploadResult) => void;
+type EventHandler = (event: IEvent) => void;
+type EventProcessor = (event: IEvent) => IEvent;
+type ConsentMode = "pending" | "granted" | "denied";
+type IdentityMode = "cookie" | "session" | "memory";
+type PluginStage = "reset" | "activate" | "teardown" | "pause" | "resume" | "listener" | "callback";
+type RemoteConfigSource = "request" | "upload";
+type RemoteConfigCallback = (error: string, remoteConfig?: IRemoteConfig) => void;
+type TagValue = string | number | boolean;
+type CompressionCallback = (result: ICompressionResult) => void;
+
+// Reading an upload on the server either fails with an error or produces a payload with regularly shaped events
+type ReadUploadCallback = (error: Error, payload?: IPayload) => void;
+
+// Payloads of a single impression put together. Duplicates are left out, and the sequence numbers missing
+// below the highest received one are listed, so that the gaps in the timeline can be told apart from the quiet periods.
+interface IImpressionTimeline {
+  impressionId: string;
+  envelopes: IEnvelope[]; /* Envelopes of the received payloads in the order of their sequence numbers */
+  events: IEvent[];
+  missingSequenceNumbers: number[]; /* Gaps in the received sequence numbers, at most 100 more than the received payloads */
+  duplicateCount: number; /* Number of payloads received more than once */
+  ended: boolean; /* Whether the final payload of the impression, which carries the manifest, was received */
+}
+
+interface IUploadResult {
+  envelope: IEnvelope;
+  status: number; /* HTTP status of the upload request, or 0 if request didn't complete */
+  delivered: boolean;
+  attemptNumber: number; /* Zero for the first attempt, incremented with each retry */
+}
+
+interface IEventHandlerContainer {
+  [key: string]: EventHandler[];
+}
 
 /* ##################################### */
 /* ############   LAYOUT   ############# */
@@ -116,7 +583,8 @@ declare const enum Source {
   Discover,
   Mutation,
   Scroll,
-  Input
+  Input,
+  Resume
 }
 
 declare const enum Action {
@@ -171,6 +639,12 @@ interface ITextLayoutState extends ILayoutState {
   content: string;
 }
 
+// Layout that starts again within the impression discovers the DOM from scratch, reusing the node indices,
+// so everything that the receiver knows about the layout before this event is stale
+interface ILayoutResetState {
+  reason: string; /* Why layout starts again: "masking", "options" or "plugins" */
+}
+
 interface IMutationEntry {
   node: Node;
   action: Action;
@@ -262,7 +736,29 @@ declare const enum Instrumentation {
   TotalByteLimitExceeded,
   Teardown,
   ClarityAssertFailed,
-  ClarityDuplicated
+  ClarityDuplicated,
+  UnloadUpload,
+  ProcessorFailed,
+  ConsentBufferExceeded,
+  TagRejected,
+  BudgetExceeded,
+  ConfigRejected,
+  PluginRejected,
+  PluginFailed,
+  Profile,
+  RemoteConfigRejected
+}
+
+declare const enum RetryDecision {
+  Scheduled,
+  Offline,
+  Abandoned
+}
+
+declare const enum UploadTransport {
+  XMLHttpRequest,
+  Beacon,
+  Fetch
 }
 
 interface IInstrumentationEventState {
@@ -283,12 +779,15 @@ interface IMissingFeatureEventState extends IInstrumentationEventState {
 
 interface IXhrErrorEventState extends IInstrumentationEventState {
   requestStatus: number;
+  impressionId: string; /* Impression of the payload, which can be replayed by a later page load */
   sequenceNumber: number;
   compressedLength: number;
   rawLength: number;
   firstEventId: number;
   lastEventId: number;
   attemptNumber: number;
+  retryDecision: RetryDecision;
+  retryDelay: number; /* Milliseconds until the next attempt, or -1 if it's not scheduled */
 }
 
 interface ITotalByteLimitExceededEventState extends IInstrumentationEventState {
@@ -303,6 +802,62 @@ interface IClarityAssertFailedEventState extends IInstrumentationEventState {
 interface IClarityDuplicatedEventState extends IInstrumentationEventState {
   currentImpressionId: string;
 }
+
+interface IProcessorFailedEventState extends IInstrumentationEventState {
+  processor: number; /* Index of the processor in the chain */
+  eventType: string; /* Type of the event that was dropped because of the failure */
+  message: string;
+  stack: string;
+}
+
+interface IConsentBufferExceededEventState extends IInstrumentationEventState {
+  droppedEvents: number; /* Number of events that didn't fit into the buffer while consent was pending */
+}
+
+interface ITagRejectedEventState extends IInstrumentationEventState {
+  key: string; /* Key of the rejected tag, or null if it's the user id that was rejected */
+  reason: string;
+}
+
+interface IProfileEventState extends IInstrumentationEventState {
+  profile: IProfile;
+  suspendedPlugin: string; /* Plugin that was suspended for exceeding the CPU budget, if any */
+}
+
+interface IBudgetExceededEventState extends IInstrumentationEventState {
+  dropped: { [type: string]: IDroppedEvents }; /* Events of each type that were over budget since the previous report */
+}
+
+interface IConfigRejectedEventState extends IInstrumentationEventState {
+  setting: string; /* Name of the setting that was passed to configure, but couldn't change while recording */
+  reason: string;
+}
+
+interface IPluginRejectedEventState extends IInstrumentationEventState {
+  name: string; /* Name, under which the plugin was registered */
+  reason: string;
+}
+
+interface IPluginFailedEventState extends IInstrumentationEventState {
+  name: string;
+  stage: PluginStage; /* Lifecycle call, bound listener or guarded callback, in which the plugin has thrown */
+  message: string;
+  stack: string;
+  errorCount: number;
+  quarantined: boolean; /* Whether the plugin was torn down for the rest of the impression */
+}
+
+interface IRemoteConfigRejectedEventState extends IInstrumentationEventState {
+  source: RemoteConfigSource; /* Whether the document was requested on start or arrived in an upload response */
+  reason: string;
+}
+
+interface IUnloadUploadEventState extends IInstrumentationEventState {
+  sequenceNumber: number;
+  transport: UploadTransport; /* Transport that ended up carrying the payload */
+  beaconAccepted: boolean; /* Whether browser queued the payload through navigator.sendBeacon */
+}
+
 /* ##################################### */
 /* #########   PERFORMANCE   ########### */
 /* ##################################### */
@@ -333,16 +888,52 @@ interface IPerformanceResourceTiming {
 interface ITypeData {
 	type: string;
 	data: any;
+	critical?: boolean; /* Critical events, e.g. conversions, are uploaded right away instead of being batched */
 }
 
 interface ICustomEvent extends IEvent {
 	detail: ITypeData;
 }
 
+/* ##################################### */
+/* ############    TAGS    ############# */
+/* ##################################### */
+
+interface IIdentifyEventState {
+  userId: string;
+}
+
+interface ITagEventState {
+  key: string;
+  value: string; /* New value of the tag, or null if the tag was removed */
+}
+
 /* ##################################### */
 /* ############   LIBRARY   ############ */
 /* ##################################### */
+interface IRecorder {
+  start(config?: IConfig): void;
+  stop(): void;
+  configure(config: IConfig): void;
+  on(type: string, handler: EventHandler): void;
+  off(type: string, handler: EventHandler): void;
+  setConsent(consent: ConsentMode): void;
+  pause(): void;
+  resume(): void;
+}
+
 interface IClarity {
   start(config?: IConfig): void;
   stop(): void;
+  configure(config: IConfig): void;
+  on(type: string, handler: EventHandler): void;
+  off(type: string, handler: EventHandler): void;
+  setConsent(consent: ConsentMode): void;
+  pause(): void;
+  resume(): void;
+  identify(userId: string, traits?: ITraits): void;
+  setTag(key: string, value: TagValue): void;
+  create(config?: IConfig): IRecorder;
+  registerCodec(codec: ICodec): boolean;
+  registerPlugin(name: string, pluginClass: IPluginClass): boolean;
 }
@@ -10,6 +10,7 @@ import * as runSequence from "run-sequence";
 import * as source from "vinyl-source-stream";
 
 declare const __dirname;
+declare const require;
 const tsProject = ts.createProject("tsconfig.json");
 const bundle = "clarity.js";
 const minifiedBundle = "clarity.min.js";
@@ -85,6 +86,11 @@ gulp.task("place-fixture", () => {
     .pipe(gulp.dest("build/test"));
 });
 
+// Local ingestion server for development, which is described in tools/devserver.ts
+gulp.task("serve", ["compile"], () => {
+  require("./build/tools/devserver").startDevServer();
+});
+
 gulp.task("place-git-hooks", () => {
   return gulp.src("githooks/*")
     .pipe(gulp.dest(".git/hooks"));
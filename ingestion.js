@@ -0,0 +1,3 @@
+// Node entry point of the server side of the upload pipeline, while the package's main is the browser bundle.
+// It's compiled along with the rest of the sources, so "gulp build" has to run first.
+module.exports = require("./build/src/ingestion");
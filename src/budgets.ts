@@ -0,0 +1,59 @@
+import { getEventBudget } from "./config";
+
+// Budgets keep a single type of events, e.g. Layout updates of a runaway animation, from using up everything that
+// the recording can upload, which would end up tearing it down. Events over the budget of their type are dropped
+// and counted, while the events of other types keep being recorded. Rates are measured in fixed windows
+// of a second and a minute, so that checking the budget stays cheap no matter how many events there are.
+export function createBudgetState(): IBudgetState {
+  return {
+    usage: {},
+    dropped: {}
+  };
+}
+
+// Returns true and counts the event towards its budget if it fits, otherwise counts it as dropped
+export function consumeBudget(state: IBudgetState, type: string, bytes: number, time: number): boolean {
+  let budget = getEventBudget(type);
+  if (!budget) {
+    return true;
+  }
+
+  let second = Math.floor(time / 1000);
+  let minute = Math.floor(time / 60000);
+  let usage = state.usage[type] || { second, secondEvents: 0, minute, minuteBytes: 0, totalEvents: 0 };
+  if (usage.second !== second) {
+    usage.second = second;
+    usage.secondEvents = 0;
+  }
+  if (usage.minute !== minute) {
+    usage.minute = minute;
+    usage.minuteBytes = 0;
+  }
+  state.usage[type] = usage;
+
+  if ((isLimit(budget.eventsPerSecond) && usage.secondEvents + 1 > budget.eventsPerSecond)
+    || (isLimit(budget.bytesPerMinute) && usage.minuteBytes + bytes > budget.bytesPerMinute)
+    || (isLimit(budget.total) && usage.totalEvents + 1 > budget.total)) {
+    let dropped = state.dropped[type] || { events: 0, bytes: 0 };
+    dropped.events++;
+    dropped.bytes += bytes;
+    state.dropped[type] = dropped;
+    return false;
+  }
+
+  usage.secondEvents++;
+  usage.minuteBytes += bytes;
+  usage.totalEvents++;
+  return true;
+}
+
+// Returns the events dropped since the previous call, or null if there were none
+export function takeDroppedEvents(state: IBudgetState): { [type: string]: IDroppedEvents } {
+  let dropped = state.dropped;
+  state.dropped = {};
+  return Object.keys(dropped).length > 0 ? dropped : null;
+}
+
+function isLimit(limit: number): boolean {
+  return typeof limit === "number" && limit >= 0;
+}
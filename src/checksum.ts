@@ -0,0 +1,54 @@
+// Every upload carries the CRC-32 of its uncompressed body, so that the server can tell a payload that was
+// corrupted on the way, or decoded incorrectly, from an intact one. XHR uploads carry it in a header, while beacon
+// and keep-alive fetch, which can't have custom headers during unload, carry it in the query string.
+export const ChecksumHeader = "X-Clarity-Checksum";
+export const ChecksumParameter = "checksum";
+
+// CRC-32 and UTF-8 encoding are defined in terms of bitwise operations
+// tslint:disable:no-bitwise
+
+let table: number[] = null;
+
+// Checksum is calculated over the UTF-8 bytes of the payload and returned as 8 hexadecimal digits
+export default function(payload: string): string {
+  table = table || createTable();
+  let crc = -1;
+  for (let i = 0; i < payload.length; i++) {
+    let code = payload.charCodeAt(i);
+    if (code >= 0xD800 && code <= 0xDBFF && i + 1 < payload.length) {
+      let low = payload.charCodeAt(i + 1);
+      if (low >= 0xDC00 && low <= 0xDFFF) {
+        code = 0x10000 + ((code - 0xD800) << 10) + (low - 0xDC00);
+        i++;
+      }
+    }
+
+    if (code < 0x80) {
+      crc = update(crc, code);
+    } else if (code < 0x800) {
+      crc = update(update(crc, 0xC0 | (code >> 6)), 0x80 | (code & 0x3F));
+    } else if (code < 0x10000) {
+      crc = update(update(update(crc, 0xE0 | (code >> 12)), 0x80 | ((code >> 6) & 0x3F)), 0x80 | (code & 0x3F));
+    } else {
+      crc = update(update(crc, 0xF0 | (code >> 18)), 0x80 | ((code >> 12) & 0x3F));
+      crc = update(update(crc, 0x80 | ((code >> 6) & 0x3F)), 0x80 | (code & 0x3F));
+    }
+  }
+  return ("0000000" + ((crc ^ -1) >>> 0).toString(16)).slice(-8);
+}
+
+function update(crc: number, byte: number): number {
+  return (crc >>> 8) ^ table[(crc ^ byte) & 0xFF];
+}
+
+function createTable(): number[] {
+  let crcTable: number[] = [];
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    crcTable.push(c);
+  }
+  return crcTable;
+}
@@ -1,5 +1,8 @@
+import { addCodec } from "./codecs";
 import { config } from "./config";
-import { activate, state, teardown } from "./core";
+import { activate, bindContext, cancelActivation, createContext, pauseRecording, reconfigure, registerPluginClass, resumeRecording,
+  state, subscribe, teardown, unsubscribe, updateConsent } from "./core";
+import { identifyUser, updateTag } from "./tags";
 import { mapProperties } from "./utils";
 
 export function start(customConfig?: IConfig) {
@@ -10,5 +13,71 @@ export function start(customConfig?: IConfig) {
 }
 
 export function stop() {
-  teardown();
+  if (state === State.Activated) {
+    teardown();
+  } else {
+    cancelActivation();
+  }
+}
+
+// Changes the configuration of the running recorder, without starting a new impression
+export function configure(customConfig: IConfig) {
+  reconfigure(customConfig);
+}
+
+export function on(type: string, handler: EventHandler) {
+  subscribe(type, handler);
+}
+
+export function off(type: string, handler: EventHandler) {
+  unsubscribe(type, handler);
+}
+
+export function setConsent(consent: ConsentMode) {
+  updateConsent(consent);
+}
+
+export function pause() {
+  pauseRecording();
+}
+
+export function resume() {
+  resumeRecording();
+}
+
+export function identify(userId: string, traits?: ITraits) {
+  identifyUser(userId, traits);
+}
+
+export function setTag(key: string, value: TagValue) {
+  updateTag(key, value);
+}
+
+// Recorders are isolated from each other and from the one behind the functions above, so that parts of the page
+// owned by different teams can be recorded with their own configuration, upload endpoint and root.
+// User id and tags describe the whole page, so they are shared by all recorders.
+export function create(customConfig?: IConfig): IRecorder {
+  let context = createContext(customConfig);
+  return {
+    start: bindContext(start, context),
+    stop: bindContext(stop, context),
+    configure: bindContext(configure, context),
+    on: bindContext(on, context),
+    off: bindContext(off, context),
+    setConsent: bindContext(setConsent, context),
+    pause: bindContext(pause, context),
+    resume: bindContext(resume, context)
+  };
+}
+
+// Codecs are shared by all recorders, which pick the one to use through the codec config option
+// Returns false if the codec was rejected, e.g. because its name is already taken by a built-in codec
+export function registerCodec(codec: ICodec): boolean {
+  return !addCodec(codec);
+}
+
+// Plugins are shared by all recorders, which pick the ones to run through the plugins config option
+// Returns false if the plugin was rejected, e.g. because its name is already taken
+export function registerPlugin(name: string, pluginClass: IPluginClass): boolean {
+  return registerPluginClass(name, pluginClass);
 }
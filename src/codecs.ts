@@ -0,0 +1,111 @@
+import compress from "./compress";
+
+// Codec turns raw payload into the string that is uploaded. Every upload names its codec, so that the server
+// knows how to decode it: XHR uploads carry the name in a header, while beacon and keep-alive fetch,
+// which can't have custom headers during unload, carry it in the query string.
+export const DefaultCodec = "lz-base64";
+export const CodecHeader = "X-Clarity-Codec";
+export const CodecParameter = "codec";
+
+const builtInCodecs: { [name: string]: ICodec } = {
+  "none": {
+    name: "none",
+    encode: (payload: string) => payload
+  },
+  "lz-base64": {
+    name: DefaultCodec,
+    encode: compress
+  },
+  "gzip-base64": {
+    name: "gzip-base64",
+    encodeAsync: gzipEncode,
+    isAvailable: () => typeof CompressionStream !== "undefined"
+  }
+};
+
+let codecs: { [name: string]: ICodec } = {};
+for (let name in builtInCodecs) {
+  if (builtInCodecs.hasOwnProperty(name)) {
+    codecs[name] = builtInCodecs[name];
+  }
+}
+
+// Returns the reason why the codec is rejected, or null if it's added. Names are never reused, since uploads that
+// name the codec have to be decoded the same way, and the worker always encodes with the built-in codecs.
+export function addCodec(codec: ICodec): string {
+  if (!codec || typeof codec.name !== "string" || codec.name.length === 0) {
+    return "Codec name has to be a non-empty string";
+  } else if (codecs.hasOwnProperty(codec.name)) {
+    return "Codec name is already taken";
+  } else if (typeof codec.encode !== "function" && typeof codec.encodeAsync !== "function") {
+    return "Codec has to implement encode or encodeAsync";
+  }
+  codecs[codec.name] = codec;
+  return null;
+}
+
+// Unknown codecs and the ones that the browser doesn't support fall back to the default codec
+export function getCodec(name: string): ICodec {
+  let codec = codecs.hasOwnProperty(name) ? codecs[name] : null;
+  return codec && (!codec.isAvailable || codec.isAvailable()) ? codec : codecs[DefaultCodec];
+}
+
+// Residual payloads are sent while the page unloads, so they can only use codecs that encode synchronously
+export function getSyncCodec(name: string): ICodec {
+  let codec = getCodec(name);
+  return codec.encode ? codec : codecs[DefaultCodec];
+}
+
+// Worker has its own copy of the built-in codecs, so the codecs registered by the page can't run there
+export function isBuiltInCodec(codec: ICodec): boolean {
+  return builtInCodecs[codec.name] === codec;
+}
+
+// Payload is still delivered if the codec fails, just encoded with the default codec
+export function encodePayload(payload: string, codec: ICodec, callback: CompressionCallback) {
+  let completed = false;
+  let complete = (encoded: string) => {
+    if (!completed) {
+      completed = true;
+      let valid = typeof encoded === "string";
+      callback({
+        compressed: valid ? encoded : compress(payload),
+        codec: valid ? codec.name : DefaultCodec
+      });
+    }
+  };
+
+  if (codec.encode) {
+    let encoded: string = null;
+    try {
+      encoded = codec.encode(payload);
+    } catch (e) {
+      // Fall back to the default codec
+    }
+    complete(encoded);
+  } else {
+    try {
+      codec.encodeAsync(payload, complete);
+    } catch (e) {
+      complete(null);
+    }
+  }
+}
+
+// Gzip output is binary, so it's converted to Base64 to travel as a string like the output of other codecs.
+// Worker runs it from its source, along with the compressor, so it may only use the globals of the browser.
+export function gzipEncode(payload: string, callback: (encoded: string) => void) {
+  try {
+    let stream = (new Blob([payload]) as any).stream().pipeThrough(new CompressionStream("gzip"));
+    new Response(stream).arrayBuffer().then((buffer: ArrayBuffer) => {
+      let bytes = new Uint8Array(buffer);
+      let binary = "";
+      for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode.apply(null, bytes.subarray(i, i + 0x8000));
+      }
+      callback(btoa(binary));
+    }, () => { callback(null); });
+  } catch (e) {
+    callback(null);
+  }
+}
@@ -10,10 +10,17 @@
 // that's efficient however payload encoded on iPhone can't be decoded using node.js
 // For this reason, we are using Base64 at the moment.
 export default function(uncompressed: string) {
+  return createCompressor(uncompressed)(null);
+}
+
+// Returned compressor works on the input until shouldYield returns true and then returns null,
+// so that it can be called again later to continue. Once all input is processed, it returns the result.
+// It doesn't reference anything outside of its own body, so its source can also be loaded into a worker.
+export function createCompressor(uncompressed: string): (shouldYield: () => boolean) => string {
   var bitsPerChar = 6;
   var keyStrBase64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/=";
   var getCharFromInt = function(a) { return keyStrBase64.charAt(a); }
-  if (uncompressed == null) return "";
+  if (uncompressed == null) return function() { return ""; };
   var i, value,
     context_dictionary = {},
     context_dictionaryToCreate = {},
@@ -26,19 +33,107 @@ export default function(uncompressed: string) {
     context_data = [],
     context_data_val = 0,
     context_data_position = 0,
-    ii;
+    ii = 0;
+
+  return function(shouldYield) {
+    var sliceStart = ii;
+    for (ii = sliceStart; ii < uncompressed.length; ii += 1) {
+      if (shouldYield && ii > sliceStart && (ii - sliceStart) % 1000 === 0 && shouldYield()) return null;
+      context_c = uncompressed.charAt(ii);
+      if (!Object.prototype.hasOwnProperty.call(context_dictionary, context_c)) {
+        context_dictionary[context_c] = context_dictSize++;
+        context_dictionaryToCreate[context_c] = true;
+      }
+
+      context_wc = context_w + context_c;
+      if (Object.prototype.hasOwnProperty.call(context_dictionary, context_wc)) {
+        context_w = context_wc;
+      } else {
+        if (Object.prototype.hasOwnProperty.call(context_dictionaryToCreate, context_w)) {
+          if (context_w.charCodeAt(0) < 256) {
+            for (i = 0; i < context_numBits; i++) {
+              context_data_val = (context_data_val << 1);
+              if (context_data_position == bitsPerChar - 1) {
+                context_data_position = 0;
+                context_data.push(getCharFromInt(context_data_val));
+                context_data_val = 0;
+              } else {
+                context_data_position++;
+              }
+            }
+            value = context_w.charCodeAt(0);
+            for (i = 0; i < 8; i++) {
+              context_data_val = (context_data_val << 1) | (value & 1);
+              if (context_data_position == bitsPerChar - 1) {
+                context_data_position = 0;
+                context_data.push(getCharFromInt(context_data_val));
+                context_data_val = 0;
+              } else {
+                context_data_position++;
+              }
+              value = value >> 1;
+            }
+          } else {
+            value = 1;
+            for (i = 0; i < context_numBits; i++) {
+              context_data_val = (context_data_val << 1) | value;
+              if (context_data_position == bitsPerChar - 1) {
+                context_data_position = 0;
+                context_data.push(getCharFromInt(context_data_val));
+                context_data_val = 0;
+              } else {
+                context_data_position++;
+              }
+              value = 0;
+            }
+            value = context_w.charCodeAt(0);
+            for (i = 0; i < 16; i++) {
+              context_data_val = (context_data_val << 1) | (value & 1);
+              if (context_data_position == bitsPerChar - 1) {
+                context_data_position = 0;
+                context_data.push(getCharFromInt(context_data_val));
+                context_data_val = 0;
+              } else {
+                context_data_position++;
+              }
+              value = value >> 1;
+            }
+          }
+          context_enlargeIn--;
+          if (context_enlargeIn == 0) {
+            context_enlargeIn = Math.pow(2, context_numBits);
+            context_numBits++;
+          }
+          delete context_dictionaryToCreate[context_w];
+        } else {
+          value = context_dictionary[context_w];
+          for (i = 0; i < context_numBits; i++) {
+            context_data_val = (context_data_val << 1) | (value & 1);
+            if (context_data_position == bitsPerChar - 1) {
+              context_data_position = 0;
+              context_data.push(getCharFromInt(context_data_val));
+              context_data_val = 0;
+            } else {
+              context_data_position++;
+            }
+            value = value >> 1;
+          }
+
 
-  for (ii = 0; ii < uncompressed.length; ii += 1) {
-    context_c = uncompressed.charAt(ii);
-    if (!Object.prototype.hasOwnProperty.call(context_dictionary, context_c)) {
-      context_dictionary[context_c] = context_dictSize++;
-      context_dictionaryToCreate[context_c] = true;
+        }
+        context_enlargeIn--;
+        if (context_enlargeIn == 0) {
+          context_enlargeIn = Math.pow(2, context_numBits);
+          context_numBits++;
+        }
+        // Add wc to the dictionary.
+        context_dictionary[context_wc] = context_dictSize++;
+        context_w = String(context_c);
+      }
     }
 
-    context_wc = context_w + context_c;
-    if (Object.prototype.hasOwnProperty.call(context_dictionary, context_wc)) {
-      context_w = context_wc;
-    } else {
+    // Output the code for w.
+    if (context_w !== "") {
       if (Object.prototype.hasOwnProperty.call(context_dictionaryToCreate, context_w)) {
         if (context_w.charCodeAt(0) < 256) {
           for (i = 0; i < context_numBits; i++) {
@@ -116,122 +211,38 @@ export default function(uncompressed: string) {
         context_enlargeIn = Math.pow(2, context_numBits);
         context_numBits++;
       }
-      // Add wc to the dictionary.
-      context_dictionary[context_wc] = context_dictSize++;
-      context_w = String(context_c);
     }
-  }
 
-  // Output the code for w.
-  if (context_w !== "") {
-    if (Object.prototype.hasOwnProperty.call(context_dictionaryToCreate, context_w)) {
-      if (context_w.charCodeAt(0) < 256) {
-        for (i = 0; i < context_numBits; i++) {
-          context_data_val = (context_data_val << 1);
-          if (context_data_position == bitsPerChar - 1) {
-            context_data_position = 0;
-            context_data.push(getCharFromInt(context_data_val));
-            context_data_val = 0;
-          } else {
-            context_data_position++;
-          }
-        }
-        value = context_w.charCodeAt(0);
-        for (i = 0; i < 8; i++) {
-          context_data_val = (context_data_val << 1) | (value & 1);
-          if (context_data_position == bitsPerChar - 1) {
-            context_data_position = 0;
-            context_data.push(getCharFromInt(context_data_val));
-            context_data_val = 0;
-          } else {
-            context_data_position++;
-          }
-          value = value >> 1;
-        }
+    // Mark the end of the stream
+    value = 2;
+    for (i = 0; i < context_numBits; i++) {
+      context_data_val = (context_data_val << 1) | (value & 1);
+      if (context_data_position == bitsPerChar - 1) {
+        context_data_position = 0;
+        context_data.push(getCharFromInt(context_data_val));
+        context_data_val = 0;
       } else {
-        value = 1;
-        for (i = 0; i < context_numBits; i++) {
-          context_data_val = (context_data_val << 1) | value;
-          if (context_data_position == bitsPerChar - 1) {
-            context_data_position = 0;
-            context_data.push(getCharFromInt(context_data_val));
-            context_data_val = 0;
-          } else {
-            context_data_position++;
-          }
-          value = 0;
-        }
-        value = context_w.charCodeAt(0);
-        for (i = 0; i < 16; i++) {
-          context_data_val = (context_data_val << 1) | (value & 1);
-          if (context_data_position == bitsPerChar - 1) {
-            context_data_position = 0;
-            context_data.push(getCharFromInt(context_data_val));
-            context_data_val = 0;
-          } else {
-            context_data_position++;
-          }
-          value = value >> 1;
-        }
+        context_data_position++;
       }
-      context_enlargeIn--;
-      if (context_enlargeIn == 0) {
-        context_enlargeIn = Math.pow(2, context_numBits);
-        context_numBits++;
-      }
-      delete context_dictionaryToCreate[context_w];
-    } else {
-      value = context_dictionary[context_w];
-      for (i = 0; i < context_numBits; i++) {
-        context_data_val = (context_data_val << 1) | (value & 1);
-        if (context_data_position == bitsPerChar - 1) {
-          context_data_position = 0;
-          context_data.push(getCharFromInt(context_data_val));
-          context_data_val = 0;
-        } else {
-          context_data_position++;
-        }
-        value = value >> 1;
-      }
-
-
-    }
-    context_enlargeIn--;
-    if (context_enlargeIn == 0) {
-      context_enlargeIn = Math.pow(2, context_numBits);
-      context_numBits++;
+      value = value >> 1;
     }
-  }
 
-  // Mark the end of the stream
-  value = 2;
-  for (i = 0; i < context_numBits; i++) {
-    context_data_val = (context_data_val << 1) | (value & 1);
-    if (context_data_position == bitsPerChar - 1) {
-      context_data_position = 0;
-      context_data.push(getCharFromInt(context_data_val));
-      context_data_val = 0;
-    } else {
-      context_data_position++;
+    // Flush the last char
+    while (true) {
+      context_data_val = (context_data_val << 1);
+      if (context_data_position == bitsPerChar - 1) {
+        context_data.push(getCharFromInt(context_data_val));
+        break;
+      }
+      else context_data_position++;
     }
-    value = value >> 1;
-  }
-
-  // Flush the last char
-  while (true) {
-    context_data_val = (context_data_val << 1);
-    if (context_data_position == bitsPerChar - 1) {
-      context_data.push(getCharFromInt(context_data_val));
-      break;
+    var res = context_data.join('');
+    switch (res.length % 4) { // To produce valid Base64
+      default: // When could this happen ?
+      case 0: return res;
+      case 1: return res + "===";
+      case 2: return res + "==";
+      case 3: return res + "=";
     }
-    else context_data_position++;
-  }
-  var res = context_data.join('');
-  switch (res.length % 4) { // To produce valid Base64
-    default: // When could this happen ?
-    case 0: return res;
-    case 1: return res + "===";
-    case 2: return res + "==";
-    case 3: return res + "=";
-  }
+  };
 }
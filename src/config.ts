@@ -1,14 +1,108 @@
 // Default configuration
-export let config: IConfig = {
+const defaultConfig: IConfig = {
   delay: 500,
   batchLimit: 100 * 1024, // 100 kilobytes
   totalLimit: 20 * 1024 * 1024,  // 20 megabytes
+  storageLimit: 1024 * 1024, // 1 megabyte
+  storageMaxAge: 24 * 60 * 60 * 1000, // 1 day
+  retryDelay: 1000,
+  retryMaxDelay: 60 * 1000, // 1 minute
+  retryLimit: 5,
   uploadUrl: "",
   showText: false,
   showImages: false,
   timeToYield: 50,
   instrument: false,
+  useWorker: false,
   uploadHandler: null,
+  codec: "lz-base64",
+  onBeforeUpload: null,
+  onUploadResult: null,
+  compactEvents: false,
+  budgets: {
+    Layout: { bytesPerMinute: 5 * 1024 * 1024 }, // 5 megabytes
+    Pointer: { eventsPerSecond: 200 },
+    Viewport: { eventsPerSecond: 50 },
+    ResourceTiming: { eventsPerSecond: 10, total: 1000 },
+    Custom: { eventsPerSecond: 100, total: 10000 },
+    Instrumentation: { eventsPerSecond: 100, total: 5000 }
+  },
+  budgetReportInterval: 10 * 1000, // 10 seconds
+  profileReportInterval: 60 * 1000, // 1 minute
+  cpuBudget: null,
+  processors: [],
+  consent: "granted",
+  consentBufferLimit: 1024 * 1024, // 1 megabyte
+  sessionTimeout: 30 * 60 * 1000, // 30 minutes
+  sessionMaxDuration: 24 * 60 * 60 * 1000, // 1 day
+  identityMode: "cookie",
+  cookieName: "ClarityID",
+  cookieDomain: "",
+  cookieExpiry: 0,
+  cookieSameSite: "",
+  cookieSecure: false,
+  root: null,
   debug: false,
-  plugins: ["viewport", "layout", "pointer", "performance", "errors", "customdata"]
+  plugins: ["viewport", "layout", "pointer", "performance", "errors", "customdata"],
+  pluginErrorLimit: 5,
+  pluginOptions: {
+    layout: { distanceThreshold: 5 },
+    pointer: { distanceThreshold: 20, timeThreshold: 500 },
+    viewport: { distanceThreshold: 20 },
+    performance: { timeoutLength: 1000 }
+  },
+  sampleRate: 1,
+  remoteConfigUrl: "",
+  remoteConfigTimeout: 1000
 };
+
+// Settings that can change while the recorder is running. The others shape the impression from its start:
+// its root, the identity and session it belongs to, or the form of its events, so they only change with a new impression.
+const runtimeSettings = ["delay", "batchLimit", "totalLimit", "storageLimit", "storageMaxAge", "retryDelay", "retryMaxDelay",
+  "retryLimit", "uploadUrl", "uploadHandler", "codec", "onBeforeUpload", "onUploadResult", "useWorker", "showText", "showImages",
+  "timeToYield", "instrument", "budgets", "budgetReportInterval", "profileReportInterval", "cpuBudget", "processors",
+  "consentBufferLimit", "debug", "plugins", "pluginErrorLimit", "pluginOptions", "sampleRate"];
+
+export let config: IConfig = createConfig();
+
+// Every recorder gets its own copy of the defaults, so that configuring one recorder doesn't affect the others
+export function createConfig(customConfig?: IConfig): IConfig {
+  let newConfig: IConfig = {};
+  for (let source of [defaultConfig, customConfig || {}]) {
+    for (let property in source) {
+      if (source.hasOwnProperty(property)) {
+        newConfig[property] = source[property];
+      }
+    }
+  }
+  return newConfig;
+}
+
+// Points the shared config binding at the configuration of the recorder that is currently running
+export function useConfig(activeConfig: IConfig) {
+  config = activeConfig;
+}
+
+export function isRuntimeSetting(setting: string): boolean {
+  return runtimeSettings.indexOf(setting) >= 0;
+}
+
+// Options that are left out of the config keep their defaults one by one, rather than the plugin losing all of them
+export function getPluginOptions(name: string): any {
+  let pluginOptions = {};
+  for (let source of [defaultConfig.pluginOptions[name], config.pluginOptions && config.pluginOptions[name]]) {
+    for (let option in source) {
+      if (source.hasOwnProperty(option)) {
+        pluginOptions[option] = source[option];
+      }
+    }
+  }
+  return pluginOptions;
+}
+
+// Budgets that are left out of the config keep their defaults type by type, so that setting the budget of one type
+// doesn't lift the budgets of all the others. Type whose budget is set to null isn't limited.
+export function getEventBudget(type: string): IEventBudget {
+  let budgets = config.budgets && config.budgets.hasOwnProperty(type) ? config.budgets : defaultConfig.budgets;
+  return budgets[type] || null;
+}
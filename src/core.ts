@@ -1,53 +1,126 @@
-import compress from "./compress";
-import { config } from "./config";
-import getPlugin from "./plugins";
-import { debug, getCookie, guid, isNumber, mapProperties, setCookie } from "./utils";
+import { consumeBudget, createBudgetState, takeDroppedEvents } from "./budgets";
+import computeChecksum, { ChecksumHeader, ChecksumParameter } from "./checksum";
+import { CodecHeader, CodecParameter, DefaultCodec, encodePayload, getCodec, getSyncCodec } from "./codecs";
+import { config, createConfig, getPluginOptions, isRuntimeSetting, useConfig } from "./config";
+import { readClarityId, writeClarityId } from "./identity";
+import getPlugin, { addPlugin, orderPlugins } from "./plugins";
+import { getNodeIndex } from "./plugins/layout/stateprovider";
+import { createProfilerState, getPluginTime, measure, takeProfile } from "./profiler";
+import { getRemoteConfigChanges, getRemoteConfigError, getUploadedRemoteConfig, readRemoteConfig, requestRemoteConfig,
+  writeRemoteConfig } from "./remoteconfig";
+import { encodeEvent, Schema } from "./schema";
+import { refreshSession } from "./session";
+import {
+  claimStoredPayloads, refreshStoredPayloads, releaseStoredPayloads, removeImpressionPayloads, removeStoredPayload, storePayload
+} from "./storage";
+import { getTags, getUserId } from "./tags";
+import { debug, guid, isNumber, mapProperties } from "./utils";
+import { compressPayload, flushCompression } from "./worker";
 
 // Constants
-const version = "0.1.9";
+const version = "0.2.0";
 const ImpressionAttribute = "data-iid";
 const UserAttribute = "data-cid";
-const Cookie = "ClarityID";
 export const ClarityAttribute = "clarity-iid";
+const PriorityUploadInterval = 1000;
 
 // Variables
 let bytes;
 let sentBytesCount: number;
 let cid: string;
+let identityMode: IdentityMode;
 let impressionId: string;
 let sequence: number;
 let eventCount: number;
 let startTime: number;
-let activePlugins: IPlugin[];
+let root: Node;
+let session: ISession;
+let activePlugins: IActivePlugin[];
+let quarantinedPlugins: string[];
 let bindings: IBindingContainer;
-let droppedPayloads: { [key: number]: IDroppedPayloadInfo };
+let subscribers: IEventHandlerContainer;
+let droppedPayloads: { [key: string]: IDroppedPayloadInfo };
+let retryTimes: { [key: string]: number };
+let retryTimeout: number;
+let heartbeatTimeout: number;
+let retryBlockedUntil: number;
+let retryInProgress: boolean;
+let retriesPaused: boolean;
 let timeout: number;
 let nextPayload: string[];
 let nextPayloadLength: number;
+let nextPayloadXhrErrorsOnly: boolean;
+let nextPayloadFirstEventId: number;
+let nextPayloadLastEventId: number;
+let priorityEvents: IBufferedEvent[];
+let priorityTimeout: number;
+let payloadStatuses: PayloadStatus[];
+let deliveredEventCount: number;
+let budgetState: IBudgetState;
+let budgetTimeout: number;
+let profilerState: IProfilerState;
+let profileTimeout: number;
+let consent: ConsentMode;
+let consentBuffer: IBufferedEvent[];
+let consentBufferLength: number;
+let consentBufferDroppedCount: number;
+let paused: boolean;
+let pauseStart: number;
+let pauseIntervals: IPauseInterval[];
+let remoteConfigPending: boolean;
 export let state: State = State.Loaded;
 
+// Every recorder on the page has its own context. State of the recorder that is currently running lives in the
+// variables above, while the state of all the other recorders waits in their contexts until it's their turn.
+let currentContext: ICoreContext;
+let activeContexts: ICoreContext[] = [];
+
+// With remote config, recording starts once the document arrives or the request times out,
+// so that the kill switch and the sampling of the document apply from the very start of the impression
 export function activate() {
+  if (remoteConfigPending) {
+    return;
+  } else if (config.remoteConfigUrl) {
+    remoteConfigPending = true;
+    requestRemoteConfig(config.remoteConfigUrl, config.remoteConfigTimeout, bindContext(onRemoteConfigLoaded));
+  } else {
+    startRecording();
+  }
+}
+
+// Recorder that is stopped while it waits for the remote config doesn't start once the document arrives
+export function cancelActivation() {
+  remoteConfigPending = false;
+}
+
+function startRecording() {
   if (init()) {
-    document[ClarityAttribute] = impressionId;
-    for (let plugin of config.plugins) {
-      let pluginClass = getPlugin(plugin);
-      if (pluginClass) {
-        let instance = new (pluginClass)();
-        instance.reset();
-        instance.activate();
-        activePlugins.push(instance);
-      }
+    root[ClarityAttribute] = impressionId;
+    activeContexts.push(currentContext);
+    for (let plugin of getRunnablePlugins(config.plugins, rejectPlugin)) {
+      startPlugin(plugin);
     }
 
     bind(window, "beforeunload", teardown);
     bind(window, "unload", teardown);
+    bind(window, "online", resumeRetries);
     state = State.Activated;
+    scheduleProfileReport();
+
+    if (consent === "granted") {
+      replayUndeliveredPayloads();
+    }
   }
 }
 
 export function teardown() {
-  for (let plugin of activePlugins) {
-    plugin.teardown();
+  // Impressions that end before the first profile report is due would otherwise never report their profile
+  if (state === State.Activated) {
+    reportProfile();
+  }
+
+  for (let activePlugin of activePlugins.slice()) {
+    runPlugin(activePlugin, "teardown", () => { activePlugin.plugin.teardown(); });
   }
 
   // Walk through existing list of bindings and remove them all
@@ -60,59 +133,717 @@ export function teardown() {
     }
   }
 
-  delete document[ClarityAttribute];
+  // Don't remove the mark of another recorder that prevented this one from activating
+  if (root && root[ClarityAttribute] === impressionId) {
+    delete root[ClarityAttribute];
+  }
+  if (activeContexts.indexOf(currentContext) >= 0) {
+    activeContexts.splice(activeContexts.indexOf(currentContext), 1);
+  }
+  clearTimeout(retryTimeout);
+  clearTimeout(heartbeatTimeout);
+  heartbeatTimeout = null;
   state = State.Unloaded;
+  if (paused) {
+    endPause();
+  }
 
-  // Upload residual events
+  // Upload residual events through the transport that survives page unload
+  flushCompression();
+  uploadPriorityEvents();
+  reportBudgetExceeded();
+  clearTimeout(profileTimeout);
+  profileTimeout = null;
   instrument({ type: Instrumentation.Teardown });
-  uploadNextPayload();
+  mapProperties(droppedPayloads, unloadDroppedPayloadsMappingFunction, true);
+  releaseStoredPayloads(impressionId);
+  // Final payload is sent even without events, so that the manifest of all earlier payloads reaches the server
+  let residualUploadState = uploadNextPayload(true, consent === "granted" && sequence > 0);
+
+  // Final payload can't carry the information about its own delivery, so that instrumentation
+  // is sent in a trailing payload, whose own transport is not reported to avoid an endless chain of reports
+  if (residualUploadState) {
+    instrument(residualUploadState);
+    uploadNextPayload(true);
+  }
+}
+
+// Timers and observer callbacks of a plugin can't let exceptions reach the page either, so they are guarded
+// the same way as its listeners. Callbacks of a plugin that has stopped are ignored, since it's torn down already.
+export function guard<T extends Function>(plugin: IPlugin, callback: T): T {
+  let guardedCallback = (...args: any[]) => {
+    let activePlugin = getActivePlugin(plugin);
+    if (activePlugin) {
+      runPlugin(activePlugin, "callback", () => { callback.apply(null, args); });
+    }
+  };
+  return bindContext(guardedCallback) as any as T;
 }
 
-export function bind(target: EventTarget, event: string, listener: EventListener) {
+// Listeners of plugins can't let exceptions reach the page, so they run through the same guard as the plugin itself
+export function bind(target: EventTarget, event: string, listener: EventListener, plugin?: IPlugin) {
   let eventBindings = bindings[event] || [];
+  if (plugin) {
+    let pluginListener = listener;
+    listener = (evt: Event) => {
+      let activePlugin = getActivePlugin(plugin);
+      if (activePlugin) {
+        runPlugin(activePlugin, "listener", () => { pluginListener(evt); });
+      }
+    };
+  }
+  listener = bindContext(listener);
   target.addEventListener(event, listener, false);
   eventBindings.push({
     target,
-    listener
+    listener,
+    plugin
   });
   bindings[event] = eventBindings;
 }
 
-export function addEvent(type: string, eventState: any, time?: number) {
+export function createContext(customConfig?: IConfig): ICoreContext {
+  return {
+    config: createConfig(customConfig),
+    state: State.Loaded,
+    bindings: {},
+    subscribers: {}
+  } as ICoreContext;
+}
+
+// Browser invokes listeners, timers and callbacks outside of any recorder's turn,
+// so they are bound to the context of the recorder that was running when they were created
+export function bindContext<T extends Function>(fn: T, context?: ICoreContext): T {
+  let boundContext = context || currentContext;
+  let contextBoundFunction = (...args: any[]) => runInContext(boundContext, () => fn.apply(null, args));
+  return fn ? contextBoundFunction as any as T : fn;
+}
+
+export function runInContext<T>(context: ICoreContext, fn: () => T): T {
+  if (context === currentContext) {
+    return fn();
+  }
+
+  let previousContext = currentContext;
+  switchContext(context);
+  try {
+    return fn();
+  } finally {
+    switchContext(previousContext);
+  }
+}
+
+// Runs the function in the context of every active recorder, e.g. to record page level changes
+export function forEachContext(fn: () => void) {
+  for (let context of activeContexts.slice()) {
+    runInContext(context, fn);
+  }
+}
+
+export function getRoot(): Node {
+  return config.root || document;
+}
+
+// Subscriptions belong to the page rather than to a single activation, so they survive stop and start
+export function subscribe(type: string, handler: EventHandler) {
+  let handlers = subscribers[type] || [];
+  if (handlers.indexOf(handler) < 0) {
+    handlers.push(handler);
+  }
+  subscribers[type] = handlers;
+}
+
+export function unsubscribe(type: string, handler: EventHandler) {
+  let handlers = subscribers[type] || [];
+  let index = handlers.indexOf(handler);
+  if (index >= 0) {
+    handlers.splice(index, 1);
+  }
+}
+
+// Priority events are uploaded right away, instead of being batched with the rest
+export function addEvent(type: string, eventState: any, time?: number, priority?: boolean) {
+  // Instrumentation describes Clarity itself rather than the page, so it's still recorded during pauses,
+  // except for the errors of the page, whose messages, stacks and sources come from the page
+  if (consent === "denied" || (paused && (type !== "Instrumentation" || eventState.type === Instrumentation.JsError))) {
+    return;
+  }
+  if (state === State.Activated && profileTimeout === null) {
+    reportProfile();
+  }
+
   let evt: IEvent = {
-    id: eventCount++,
+    id: eventCount,
     time: isNumber(time) ? time : getTimestamp(),
     type,
     state: eventState
   };
-  let eventStr = JSON.stringify(evt);
+
+  // Event ID is only taken once the event makes it through processors and fits into its budget,
+  // so that dropped events don't leave gaps
+  evt = processEvent(evt);
+  if (!evt) {
+    return;
+  }
+  evt.id = eventCount;
+  let eventStr = profile("serialize", () => JSON.stringify(config.compactEvents ? encodeEvent(evt) : evt));
+  if (!isBudgetExempt(evt) && !consumeBudget(budgetState, evt.type, eventStr.length, getTimestamp())) {
+    scheduleBudgetReport();
+    return;
+  }
+  eventCount++;
+  if (consent === "pending") {
+    bufferEvent(evt.id, eventStr);
+  } else if (priority && state !== State.Loaded) {
+    uploadPriorityEvent(evt.id, eventStr);
+  } else {
+    batchEvent(evt.id, eventStr, !!(eventState && eventState.type === Instrumentation.XhrError));
+  }
+  notifySubscribers(evt);
+}
+
+// Consent belongs to the user rather than to a single activation, so it's kept in config for the next start
+export function updateConsent(mode: ConsentMode) {
+  config.consent = mode;
+  if (state !== State.Activated || mode === consent) {
+    return;
+  }
+
+  consent = mode;
+  switch (mode) {
+    case "granted":
+      grantConsent();
+      break;
+    case "denied":
+      denyConsent();
+      break;
+    default:
+      break;
+  }
+}
+
+// Plugin that is registered while recorders are running starts right away in the ones that list it in their config
+export function registerPluginClass(name: string, pluginClass: IPluginClass): boolean {
+  let reason = addPlugin(name, pluginClass);
+  forEachContext(() => {
+    if (reason) {
+      rejectPlugin(name, reason);
+    } else if (getRunnablePlugins(config.plugins).indexOf(name) >= 0) {
+      startPlugin(name);
+    }
+  });
+  return !reason;
+}
+
+// Before the recorder starts, changes are simply merged into its config. While it's running, each setting is applied
+// live, or rejected with a report, when it can only change with a new impression. Rejected settings don't hold back the rest.
+export function reconfigure(changes: IConfig) {
+  if (state !== State.Activated) {
+    mapProperties(changes, null, true, config);
+    return;
+  }
+
+  let previousPluginList = config.plugins;
+  let previousPlugins = getRunnablePlugins(previousPluginList);
+  let previousOptions = previousPlugins.map(getPluginOptions);
+  let previousDelay = config.delay;
+  let previousSampleRate = config.sampleRate;
+  let remask = false;
+  for (let setting in changes) {
+    if (changes.hasOwnProperty(setting) && !isSameSetting(config[setting], changes[setting])) {
+      if (isRuntimeSetting(setting)) {
+        config[setting] = changes[setting];
+        remask = remask || setting === "showText" || setting === "showImages";
+      } else {
+        rejectSetting(setting, setting === "consent" ? "Consent is updated through setConsent"
+          : "Setting can't change while recording, it takes effect on the next start");
+      }
+    }
+  }
+
+  // Impression is kept with the probability that makes it part of the smaller sample, as if it was sampled at the new rate
+  if (config.sampleRate < previousSampleRate && !(Math.random() * previousSampleRate < config.sampleRate)) {
+    teardown();
+    return;
+  }
+
+  // Plugins that were dropped from the list are torn down and the new ones are activated, while the rest keep running.
+  // Plugins whose options have changed restart with the new options. Layout that is already recorded can't be masked
+  // again, so layout restarts too and discovers the DOM with the new masking. Dependent plugins stop before the plugins
+  // they depend on, and start after them. Rejections are reported for new plugins and for the ones that have to stop.
+  // Layout that starts again reuses node indices from the beginning, so it's preceded by the event that resets it.
+  let plugins = getRunnablePlugins(config.plugins, (name: string, reason: string) => {
+    if (previousPluginList.indexOf(name) < 0 || previousPlugins.indexOf(name) >= 0) {
+      rejectPlugin(name, reason);
+    }
+  });
+  let restarted = previousPlugins.filter((plugin: string, index: number) => {
+    return (remask && plugin === "layout") || !isSameOptions(previousOptions[index], getPluginOptions(plugin));
+  });
+  for (let plugin of previousPlugins.slice().reverse()) {
+    if (plugins.indexOf(plugin) < 0 || restarted.indexOf(plugin) >= 0) {
+      stopPlugin(plugin);
+    }
+  }
+  for (let plugin of plugins) {
+    if (previousPlugins.indexOf(plugin) < 0 || restarted.indexOf(plugin) >= 0) {
+      if (plugin === "layout") {
+        let resetState: ILayoutResetState = { reason: remask ? "masking" : (restarted.indexOf(plugin) >= 0 ? "options" : "plugins") };
+        addEvent("LayoutReset", resetState);
+      }
+      startPlugin(plugin);
+    }
+  }
+
+  // Batch that has outgrown the new limit is uploaded right away, and the pending upload follows the new delay
+  if (nextPayloadLength > config.batchLimit) {
+    uploadNextPayload();
+  } else if (config.delay !== previousDelay && nextPayloadLength > 0 && !nextPayloadXhrErrorsOnly) {
+    clearTimeout(timeout);
+    timeout = setTimeout(bindContext(uploadNextPayload), config.delay);
+  }
+}
+
+// Document that couldn't be loaded is replaced with its last valid copy, if there is one
+function onRemoteConfigLoaded(error: string, remoteConfig: IRemoteConfig) {
+  if (!remoteConfigPending) {
+    return;
+  }
+  remoteConfigPending = false;
+  remoteConfig = remoteConfig || readRemoteConfig(config.remoteConfigUrl);
+  if (remoteConfig) {
+    reconfigure(getRemoteConfigChanges(remoteConfig));
+  }
+  if (!(remoteConfig && remoteConfig.disabled)) {
+    startRecording();
+    if (error && state === State.Activated) {
+      rejectRemoteConfig("request", error);
+    }
+  }
+}
+
+// Newer version of the remote config document applies to the running recorder right away and is kept for the next start
+function onUploadResponse(response: string) {
+  let remoteConfig = config.remoteConfigUrl && response ? getUploadedRemoteConfig(response) : undefined;
+  let error = remoteConfig === undefined ? null : getRemoteConfigError(remoteConfig);
+  if (remoteConfig === undefined || (error && state !== State.Activated)) {
+    return;
+  } else if (error) {
+    rejectRemoteConfig("upload", error);
+    return;
+  }
+
+  writeRemoteConfig(config.remoteConfigUrl, remoteConfig);
+  if (state === State.Activated && remoteConfig.disabled) {
+    teardown();
+  } else if (state === State.Activated) {
+    reconfigure(getRemoteConfigChanges(remoteConfig));
+  }
+}
+
+// Plugins are paused first, so that they can record what happened right before the pause,
+// and resumed last, so that events they emit to catch up with the page aren't discarded
+export function pauseRecording() {
+  if (state === State.Activated && !paused) {
+    for (let activePlugin of activePlugins.slice()) {
+      if (activePlugin.plugin.pause) {
+        runPlugin(activePlugin, "pause", () => { activePlugin.plugin.pause(); });
+      }
+    }
+    paused = true;
+    pauseStart = getTimestamp();
+  }
+}
+
+export function resumeRecording() {
+  if (state === State.Activated && paused) {
+    endPause();
+    for (let activePlugin of activePlugins.slice()) {
+      if (activePlugin.plugin.resume) {
+        runPlugin(activePlugin, "resume", () => { activePlugin.plugin.resume(); });
+      }
+    }
+  }
+}
+
+export function getTimestamp(unix?: boolean, raw?: boolean) {
+  let time = unix ? getUnixTimestamp() : getPageContextBasedTimestamp();
+  return (raw ? time : Math.round(time));
+}
+
+// Measures the time that Clarity spends in the subsystem, which is reported periodically along with the other subsystems
+export function profile<T>(subsystem: string, fn: () => T): T {
+  return measure(profilerState, subsystem, fn);
+}
+
+// Errors are reported right away, while teardown already goes out in the residual payload that is sent immediately
+export function instrument(eventState: IInstrumentationEventState) {
+  if (config.instrument) {
+    addEvent("Instrumentation", eventState, undefined, eventState.type === Instrumentation.JsError);
+  }
+}
+
+function batchEvent(id: number, eventStr: string, xhrError: boolean) {
   if (nextPayloadLength > 0 && nextPayloadLength + eventStr.length > config.batchLimit) {
     uploadNextPayload();
   }
   nextPayload.push(eventStr);
   nextPayloadLength += eventStr.length;
+  nextPayloadFirstEventId = nextPayload.length === 1 ? id : nextPayloadFirstEventId;
+  nextPayloadLastEventId = id;
 
   // Edge case:
-  // Don't reschedule upload when next payload consists of exactly one XhrError instrumentation event.
+  // Don't reschedule upload when next payload consists of XhrError instrumentation events only.
   // This helps us avoid the infinite loop in the case when all requests fail (e.g. dropped internet connection)
   // Infinite loop comes from sending instrumentation about failing to deliver previous delivery failure instrumentation.
-  let rescheduleUpload = !(eventState && eventState.type === Instrumentation.XhrError && nextPayload.length === 1);
+  // Since every failed retry reports another XhrError, there can be more than one such event in the payload.
+  nextPayloadXhrErrorsOnly = nextPayloadXhrErrorsOnly && xhrError;
+  let rescheduleUpload = !nextPayloadXhrErrorsOnly;
   if (rescheduleUpload) {
     if (timeout) {
       clearTimeout(timeout);
     }
-    timeout = setTimeout(uploadNextPayload, config.delay);
+    timeout = setTimeout(bindContext(uploadNextPayload), config.delay);
   }
 }
 
-export function getTimestamp(unix?: boolean, raw?: boolean) {
-  let time = unix ? getUnixTimestamp() : getPageContextBasedTimestamp();
-  return (raw ? time : Math.round(time));
+// Events that don't fit into the buffer are counted, so that the gap can be reported once consent is granted
+function bufferEvent(id: number, eventStr: string) {
+  if (consentBufferLength + eventStr.length > config.consentBufferLimit) {
+    consentBufferDroppedCount++;
+  } else {
+    consentBuffer.push({ id, eventStr });
+    consentBufferLength += eventStr.length;
+  }
 }
 
-export function instrument(eventState: IInstrumentationEventState) {
-  if (config.instrument) {
-    addEvent("Instrumentation", eventState);
+// Buffered events already have their IDs, while sequence numbers are only taken on upload,
+// so flushing the buffer through regular batching keeps both sequences intact
+function grantConsent() {
+  let bufferedEvents = consentBuffer;
+  let droppedEvents = consentBufferDroppedCount;
+  resetConsentBuffer();
+  ensureClarityId();
+  for (let bufferedEvent of bufferedEvents) {
+    batchEvent(bufferedEvent.id, bufferedEvent.eventStr, false);
+  }
+
+  if (droppedEvents > 0) {
+    let consentBufferExceededEventState: IConsentBufferExceededEventState = {
+      type: Instrumentation.ConsentBufferExceeded,
+      droppedEvents
+    };
+    instrument(consentBufferExceededEventState);
+  }
+  replayUndeliveredPayloads();
+}
+
+// Nothing recorded on the page is uploaded after consent is denied, including the events
+// that were recorded while consent was granted, but haven't been delivered yet. Payloads that were kept
+// in the storage for the next page load are removed too, along with the ones this page took over from earlier ones.
+function denyConsent() {
+  let impressionIds = [impressionId];
+  for (let key in droppedPayloads) {
+    if (droppedPayloads.hasOwnProperty(key) && impressionIds.indexOf(droppedPayloads[key].xhrErrorState.impressionId) < 0) {
+      impressionIds.push(droppedPayloads[key].xhrErrorState.impressionId);
+    }
+  }
+  removeImpressionPayloads(impressionIds);
+  resetConsentBuffer();
+  nextPayload = [];
+  nextPayloadLength = 0;
+  priorityEvents = [];
+  clearTimeout(priorityTimeout);
+  priorityTimeout = null;
+  droppedPayloads = {};
+  retryTimes = {};
+  teardown();
+}
+
+// Plugin that starts during a pause is paused right away, so that it doesn't record the page while nothing else does.
+// Plugin that was quarantined doesn't start again until the next impression, and neither do the plugins that depend on it.
+function startPlugin(name: string) {
+  let pluginClass = getPlugin(name);
+  let missingDependencies = ((pluginClass && pluginClass.dependencies) || []).filter((dependency: string) => {
+    return !activePlugins.some((activePlugin: IActivePlugin) => activePlugin.name === dependency);
+  });
+  if (!pluginClass) {
+    rejectPlugin(name, "Plugin isn't registered, it starts once it's registered");
+  } else if (missingDependencies.length > 0) {
+    rejectPlugin(name, `Plugin depends on ${missingDependencies[0]}, which isn't active`);
+  } else if (quarantinedPlugins.indexOf(name) < 0) {
+    let activePlugin: IActivePlugin = { name, plugin: null, errorCount: 0 };
+    activePlugins.push(activePlugin);
+    let started = runPlugin(activePlugin, "reset", () => {
+      activePlugin.plugin = new (pluginClass)(createPluginContext(() => activePlugin.plugin));
+      activePlugin.plugin.reset(getPluginOptions(name));
+    }) && runPlugin(activePlugin, "activate", () => { activePlugin.plugin.activate(); });
+    if (started && paused && activePlugin.plugin.pause) {
+      runPlugin(activePlugin, "pause", () => { activePlugin.plugin.pause(); });
+    }
+  }
+}
+
+// Context is bound to the recorder that is running now, and its bindings to the plugin, which is known once it's constructed
+function createPluginContext(getPluginInstance: () => IPlugin): IPluginContext {
+  return {
+    addEvent: bindContext(addEvent),
+    bind: bindContext((target: EventTarget, event: string, listener: EventListener) => {
+      bind(target, event, listener, getPluginInstance());
+    }),
+    instrument: bindContext(instrument),
+    setTimeout: (callback: () => void, delay: number) => setTimeout(guard(getPluginInstance(), callback), delay),
+    guard: <T extends Function>(callback: T) => guard(getPluginInstance(), callback),
+    getTimestamp: bindContext(getTimestamp),
+    getNodeIndex
+  };
+}
+
+function stopPlugin(name: string) {
+  for (let activePlugin of activePlugins.filter((candidate: IActivePlugin) => candidate.name === name)) {
+    removePlugin(activePlugin);
+  }
+}
+
+// Plugin is taken out of the list before its teardown, so that a failing teardown can't quarantine it once more
+function removePlugin(activePlugin: IActivePlugin) {
+  activePlugins.splice(activePlugins.indexOf(activePlugin), 1);
+  if (activePlugin.plugin) {
+    runPlugin(activePlugin, "teardown", () => { activePlugin.plugin.teardown(); });
+    unbindPlugin(activePlugin.plugin);
+  }
+}
+
+// Plugins that depend on the quarantined one can't work as intended without it, e.g. pointer targets are indices
+// of layout, so they are stopped and rejected along with it, dependent plugins first
+function quarantinePlugin(activePlugin: IActivePlugin) {
+  quarantinedPlugins.push(activePlugin.name);
+  removePlugin(activePlugin);
+  let running = activePlugins.map((candidate: IActivePlugin) => candidate.name);
+  let runnable = getRunnablePlugins(running, rejectPlugin);
+  for (let name of running.slice().reverse()) {
+    if (runnable.indexOf(name) < 0) {
+      stopPlugin(name);
+    }
+  }
+}
+
+// Quarantined plugins don't run again in this impression, and neither do the plugins that depend on them
+function getRunnablePlugins(names: string[], reject?: (name: string, reason: string) => void): string[] {
+  return orderPlugins(names.filter((name: string) => quarantinedPlugins.indexOf(name) < 0), reject);
+}
+
+function getActivePlugin(plugin: IPlugin): IActivePlugin {
+  for (let activePlugin of activePlugins) {
+    if (activePlugin.plugin === plugin) {
+      return activePlugin;
+    }
+  }
+  return null;
+}
+
+// Exceptions thrown by a plugin are reported instead of reaching the page. Plugin that fails to start, or keeps failing
+// beyond the limit, is quarantined: it's torn down for the rest of the impression, while the other plugins keep recording.
+function runPlugin(activePlugin: IActivePlugin, stage: PluginStage, fn: () => void): boolean {
+  try {
+    profile(activePlugin.name, fn);
+    return true;
+  } catch (e) {
+    activePlugin.errorCount++;
+    let running = activePlugins.indexOf(activePlugin) >= 0;
+    let quarantined = running && stage !== "teardown"
+      && (stage === "reset" || stage === "activate" || activePlugin.errorCount >= config.pluginErrorLimit);
+    let pluginFailedEventState: IPluginFailedEventState = {
+      type: Instrumentation.PluginFailed,
+      name: activePlugin.name,
+      stage,
+      message: e && e.message ? e.message : String(e),
+      stack: e && e.stack ? e.stack : null,
+      errorCount: activePlugin.errorCount,
+      quarantined
+    };
+    instrument(pluginFailedEventState);
+    if (quarantined) {
+      quarantinePlugin(activePlugin);
+    }
+    return false;
+  }
+}
+
+function unbindPlugin(plugin: IPlugin) {
+  for (let evt in bindings) {
+    if (bindings.hasOwnProperty(evt)) {
+      bindings[evt] = bindings[evt].filter((binding: IEventBindingPair) => {
+        if (binding.plugin === plugin) {
+          binding.target.removeEventListener(evt, binding.listener);
+        }
+        return binding.plugin !== plugin;
+      });
+    }
+  }
+}
+
+// Lists of plugins and processors are compared by their items, since callers usually pass a new array
+function isSameSetting(current: any, next: any): boolean {
+  if (Array.isArray(current) && Array.isArray(next)) {
+    return current.length === next.length && current.every((item: any, index: number) => item === next[index]);
+  }
+  return current === next;
+}
+
+function isSameOptions(current: any, next: any): boolean {
+  let options = Object.keys(current);
+  return options.length === Object.keys(next).length && options.every((option: string) => current[option] === next[option]);
+}
+
+function rejectSetting(setting: string, reason: string) {
+  let configRejectedEventState: IConfigRejectedEventState = {
+    type: Instrumentation.ConfigRejected,
+    setting,
+    reason
+  };
+  instrument(configRejectedEventState);
+}
+
+function rejectRemoteConfig(source: RemoteConfigSource, reason: string) {
+  let remoteConfigRejectedEventState: IRemoteConfigRejectedEventState = {
+    type: Instrumentation.RemoteConfigRejected,
+    source,
+    reason
+  };
+  instrument(remoteConfigRejectedEventState);
+}
+
+function rejectPlugin(name: string, reason: string) {
+  let pluginRejectedEventState: IPluginRejectedEventState = {
+    type: Instrumentation.PluginRejected,
+    name,
+    reason
+  };
+  instrument(pluginRejectedEventState);
+}
+
+function endPause() {
+  paused = false;
+  pauseIntervals.push({
+    start: pauseStart,
+    end: getTimestamp()
+  });
+}
+
+function resetConsentBuffer() {
+  consentBuffer = [];
+  consentBufferLength = 0;
+  consentBufferDroppedCount = 0;
+}
+
+// Events, for which a processor throws, are dropped, because they may still contain the data that processor
+// was supposed to redact. Failure reports skip the processors, so that a failing processor can't suppress
+// the report about its own failure or end up in an endless chain of failures.
+function processEvent(evt: IEvent): IEvent {
+  if (evt.state && evt.state.type === Instrumentation.ProcessorFailed && evt.type === "Instrumentation") {
+    return evt;
+  }
+
+  let processors = config.processors || [];
+  for (let i = 0; i < processors.length && evt; i++) {
+    try {
+      evt = processors[i](evt);
+    } catch (e) {
+      let processorFailedEventState: IProcessorFailedEventState = {
+        type: Instrumentation.ProcessorFailed,
+        processor: i,
+        eventType: evt.type,
+        message: e && e.message,
+        stack: e && e.stack
+      };
+      instrument(processorFailedEventState);
+      evt = null;
+    }
+  }
+  return evt;
+}
+
+// Report about the events dropped for being over budget can't be dropped itself, or nothing would report the drops
+function isBudgetExempt(evt: IEvent): boolean {
+  return evt.type === "Instrumentation" && evt.state && evt.state.type === Instrumentation.BudgetExceeded;
+}
+
+// Dropped events are reported in a summary once per interval, rather than one by one
+function scheduleBudgetReport() {
+  if (budgetTimeout === null) {
+    budgetTimeout = setTimeout(bindContext(reportBudgetExceeded), config.budgetReportInterval);
+  }
+}
+
+// Once the interval is over, profile is reported along with the next event, rather than in an upload of its own,
+// which would keep the session alive on a page that is left open without activity
+function scheduleProfileReport() {
+  clearTimeout(profileTimeout);
+  profileTimeout = setTimeout(bindContext(() => { profileTimeout = null; }), config.profileReportInterval);
+}
+
+function reportProfile() {
+  scheduleProfileReport();
+  let currentProfile = takeProfile(profilerState);
+  if (currentProfile) {
+    let profileEventState: IProfileEventState = {
+      type: Instrumentation.Profile,
+      profile: currentProfile,
+      suspendedPlugin: enforceCpuBudget(currentProfile)
+    };
+    instrument(profileEventState);
+  }
+}
+
+// Plugin that took the most time is suspended the way failing plugins are quarantined, so that it doesn't come back
+// until the next impression. Core itself can't be suspended, so the budget is only enforced through plugins.
+function enforceCpuBudget(currentProfile: IProfile): string {
+  if (state !== State.Activated || !isNumber(config.cpuBudget) || currentProfile.duration <= 0
+    || currentProfile.totalTime / (currentProfile.duration / 1000) <= config.cpuBudget) {
+    return null;
+  }
+
+  let heaviestPlugin: IActivePlugin = null;
+  let heaviestTime = 0;
+  for (let activePlugin of activePlugins) {
+    let pluginTime = getPluginTime(currentProfile, activePlugin.name);
+    if (pluginTime > heaviestTime) {
+      heaviestPlugin = activePlugin;
+      heaviestTime = pluginTime;
+    }
+  }
+  if (heaviestPlugin) {
+    quarantinePlugin(heaviestPlugin);
+  }
+  return heaviestPlugin ? heaviestPlugin.name : null;
+}
+
+function reportBudgetExceeded() {
+  clearTimeout(budgetTimeout);
+  budgetTimeout = null;
+  let dropped = takeDroppedEvents(budgetState);
+  if (dropped) {
+    let budgetExceededEventState: IBudgetExceededEventState = {
+      type: Instrumentation.BudgetExceeded,
+      dropped
+    };
+    instrument(budgetExceededEventState);
+  }
+}
+
+// Handlers are invoked after the event is serialized, so they can't alter what gets uploaded.
+// Exceptions in the host page's handlers shouldn't break recording, so they are caught here.
+function notifySubscribers(evt: IEvent) {
+  let handlers = subscribers[evt.type];
+  if (handlers) {
+    for (let handler of handlers.slice()) {
+      try {
+        handler(evt);
+      } catch (e) {
+        debug(`>>> Clarity event handler failed for ${evt.type}: ${e}`);
+      }
+    }
   }
 }
 
@@ -132,142 +863,616 @@ function getPageContextBasedTimestamp(): number {
     : new Date().getTime() - startTime;
 }
 
-function envelope(): IEnvelope {
-  return {
+// Every upload counts as activity in the session, which is also the moment when expired session rolls over
+// Event ranges and counts let the server tell which events are missing, while the final payloads list the outcome
+// of all earlier payloads, so that the server can tell the payloads that were dropped from the ones still on the way.
+function envelope(events: string[], firstEventId: number, lastEventId: number): IEnvelope {
+  session = refreshSession(session);
+  let manifest = state === State.Unloaded ? getManifest() : null;
+  let payloadEnvelope: IEnvelope = {
     clarityId: cid,
+    identityMode,
     impressionId,
     url: window.location.href,
     version,
     time: Math.round(getPageContextBasedTimestamp()),
-    sequenceNumber: sequence++
+    sequenceNumber: sequence++,
+    sessionId: session.sessionId,
+    pageNumber: session.pageNumber,
+    firstEventId: events.length > 0 ? firstEventId : null,
+    lastEventId: events.length > 0 ? lastEventId : null,
+    eventCount: events.length,
+    emittedEventCount: eventCount,
+    deliveredEventCount
   };
+  payloadStatuses[payloadEnvelope.sequenceNumber] = PayloadStatus.Pending;
+  if (manifest) {
+    payloadEnvelope.manifest = manifest;
+  }
+  if (getUserId()) {
+    payloadEnvelope.userId = getUserId();
+  }
+  if (getTags()) {
+    payloadEnvelope.tags = getTags();
+  }
+  if (pauseIntervals.length > 0) {
+    payloadEnvelope.pauses = pauseIntervals;
+    pauseIntervals = [];
+  }
+  if (config.compactEvents) {
+    payloadEnvelope.schema = Schema.version;
+  }
+  return payloadEnvelope;
+}
+
+// Consecutive payloads with the same outcome are listed as a single range
+function getManifest(): IPayloadManifest {
+  let manifest: IPayloadManifest = {
+    delivered: [],
+    pending: [],
+    dropped: []
+  };
+  let ranges: number[][][] = [];
+  ranges[PayloadStatus.Pending] = manifest.pending;
+  ranges[PayloadStatus.Delivered] = manifest.delivered;
+  ranges[PayloadStatus.Dropped] = manifest.dropped;
+
+  let range: number[] = null;
+  for (let i = 0; i < payloadStatuses.length; i++) {
+    if (range && payloadStatuses[i] === payloadStatuses[i - 1]) {
+      range[1] = i;
+    } else {
+      range = [i, i];
+      ranges[payloadStatuses[i]].push(range);
+    }
+  }
+  return manifest;
 }
 
-function uploadNextPayload() {
-  if (nextPayloadLength > 0) {
-    let uncompressed = `{"envelope":${JSON.stringify(envelope())},"events":[${nextPayload.join()}]}`;
-    let compressed = compress(uncompressed);
-    let onSuccess = (status: number) => { mapProperties(droppedPayloads, uploadDroppedPayloadsMappingFunction, true); };
-    let onFailure = (status: number) => { onFirstSendDeliveryFailure(status, uncompressed, compressed); };
+// Payloads of other impressions are replayed from the storage, so only this impression's own payloads are tracked
+function updatePayloadStatus(payloadEnvelope: IEnvelope, status: PayloadStatus) {
+  if (payloadEnvelope.impressionId === impressionId && payloadStatuses[payloadEnvelope.sequenceNumber] === PayloadStatus.Pending) {
+    payloadStatuses[payloadEnvelope.sequenceNumber] = status;
+    if (status === PayloadStatus.Delivered) {
+      deliveredEventCount += payloadEnvelope.eventCount;
+    }
+  }
+}
 
+function uploadNextPayload(unload?: boolean, force?: boolean): IUnloadUploadEventState {
+  let unloadUploadState: IUnloadUploadEventState = null;
+  if (nextPayloadLength > 0 || force) {
+    let events = nextPayload;
+    let firstEventId = nextPayloadFirstEventId;
+    let lastEventId = nextPayloadLastEventId;
     nextPayload = [];
     nextPayloadLength = 0;
-    upload(compressed, onSuccess, onFailure);
+    nextPayloadXhrErrorsOnly = true;
+    nextPayloadFirstEventId = null;
+    nextPayloadLastEventId = null;
+    unloadUploadState = uploadPayload(events, firstEventId, lastEventId, unload, false);
+  }
+  return unloadUploadState;
+}
 
-    if (config.debug && localStorage) {
-      // Debug Information
-      bytes.push(compressed);
-      let compressedKb = Math.ceil(bytes[bytes.length - 1].length / 1024.0);
-      let rawKb = Math.ceil(uncompressed.length / 1024.0);
-      debug(`** Clarity #${sequence}: Uploading ${compressedKb}KB (raw: ${rawKb}KB). **`);
-      localStorage.setItem("clarity", JSON.stringify(bytes));
-    }
+// Priority events don't wait for the batch, which can hold off the upload for as long as events keep coming,
+// and may be lost with it when the page closes. Priority event is uploaded right away in a small payload of its own,
+// while the batch goes on collecting the bulk of the events. Priority events that follow within a second are uploaded
+// together at the end of it, so that errors thrown in a loop don't turn into a stream of uploads.
+function uploadPriorityEvent(id: number, eventStr: string) {
+  priorityEvents.push({ id, eventStr });
+  if (priorityTimeout === null || state === State.Unloaded) {
+    uploadPriorityEvents();
+  }
+}
 
-    if (state === State.Activated && sentBytesCount > config.totalLimit) {
-      let totalByteLimitExceededEventState: ITotalByteLimitExceededEventState = {
-        type: Instrumentation.TotalByteLimitExceeded,
-        bytes: sentBytesCount
-      };
-      instrument(totalByteLimitExceededEventState);
-      teardown();
-    }
+function uploadPriorityEvents() {
+  clearTimeout(priorityTimeout);
+  priorityTimeout = null;
+  if (priorityEvents.length === 0) {
+    return;
+  }
+
+  let events = priorityEvents;
+  let unload = state === State.Unloaded;
+  priorityEvents = [];
+  let unloadUploadState = uploadPayload(events.map((evt: IBufferedEvent) => evt.eventStr), events[0].id,
+    events[events.length - 1].id, unload, true);
+  if (!unload) {
+    priorityTimeout = setTimeout(bindContext(uploadPriorityEvents), PriorityUploadInterval);
+  }
+  if (unloadUploadState) {
+    instrument(unloadUploadState);
+  }
+}
+
+function uploadPayload(events: string[], firstEventId: number, lastEventId: number, unload: boolean,
+                       priority: boolean): IUnloadUploadEventState {
+  let unloadUploadState: IUnloadUploadEventState = null;
+  let payloadEnvelope = envelope(events, firstEventId, lastEventId);
+  invokeHook(config.onBeforeUpload, payloadEnvelope);
+  let uncompressed = `{"envelope":${JSON.stringify(payloadEnvelope)},"events":[${events.join()}]}`;
+  let checksum = computeChecksum(uncompressed);
+
+  // Residual payloads have to be sent before the page unloads, so they are always compressed right away,
+  // and so are the priority payloads, which shouldn't wait in the queue behind the batches that are being compressed
+  let codec = getCodec(config.codec);
+  if (unload || priority) {
+    unloadUploadState = sendPayload(payloadEnvelope, uncompressed, checksum, encodeSync(uncompressed, getSyncCodec(config.codec)), unload);
+  } else if (config.useWorker || !codec.encode) {
+    let workerUploadUrl = config.uploadHandler || config.uploadUrl.length === 0 ? null : config.uploadUrl;
+    compressPayload(uncompressed, codec, config.useWorker, workerUploadUrl, checksum, config.timeToYield,
+      bindContext((result: ICompressionResult) => { onPayloadCompressed(payloadEnvelope, uncompressed, checksum, result); }),
+      bindContext((compress: () => void) => { profile("compress", compress); }));
+  } else {
+    sendPayload(payloadEnvelope, uncompressed, checksum, encodeSync(uncompressed, codec), false);
+  }
+  return unloadUploadState;
+}
+
+// Codecs that encode synchronously invoke the callback right away, so the payload is sent after compression is measured
+function encodeSync(uncompressed: string, codec: ICodec): ICompressionResult {
+  let compressionResult: ICompressionResult = null;
+  profile("compress", () => {
+    encodePayload(uncompressed, codec, (result: ICompressionResult) => { compressionResult = result; });
+  });
+  return compressionResult;
+}
+
+// Compression that was started before teardown completes afterwards, in which case payload is sent
+// the way residual payloads are, unless nothing recorded on the page may be uploaded anymore
+function onPayloadCompressed(payloadEnvelope: IEnvelope, uncompressed: string, checksum: string, result: ICompressionResult) {
+  if (consent === "denied") {
+    return;
   }
+
+  let unloadUploadState = sendPayload(payloadEnvelope, uncompressed, checksum, result, state !== State.Activated);
+  if (unloadUploadState) {
+    instrument(unloadUploadState);
+  }
+}
+
+function sendPayload(payloadEnvelope: IEnvelope, uncompressed: string, checksum: string, result: ICompressionResult,
+                     unload: boolean): IUnloadUploadEventState {
+  let unloadUploadState: IUnloadUploadEventState = null;
+  let compressed = result.compressed;
+  let onSuccess = (status: number, retryAfter?: number, response?: string) => {
+    reportUploadResult(payloadEnvelope, status, true, 0);
+    onUploadResponse(response);
+  };
+  let onFailure = (status: number, retryAfter?: number) => {
+    reportUploadResult(payloadEnvelope, status, false, 0);
+    onFirstSendDeliveryFailure(status, retryAfter, uncompressed, checksum, result);
+  };
+
+  if (isNumber(result.status)) {
+    // Worker has uploaded the payload already
+    sentBytesCount += compressed.length;
+    onUploadComplete(result.status, result.retryAfter, onSuccess, onFailure, result.response);
+  } else if (unload) {
+    unloadUploadState = unloadUpload(compressed, result.codec, checksum, payloadEnvelope.sequenceNumber, onSuccess, onFailure);
+  } else {
+    upload(compressed, result.codec, checksum, onSuccess, onFailure);
+  }
+
+  if (config.debug && localStorage) {
+    // Debug Information
+    bytes.push(compressed);
+    let compressedKb = Math.ceil(bytes[bytes.length - 1].length / 1024.0);
+    let rawKb = Math.ceil(uncompressed.length / 1024.0);
+    debug(`** Clarity #${payloadEnvelope.sequenceNumber + 1}: Uploading ${compressedKb}KB (raw: ${rawKb}KB). **`);
+    localStorage.setItem("clarity", JSON.stringify(bytes));
+  }
+
+  if (state === State.Activated && sentBytesCount > config.totalLimit) {
+    let totalByteLimitExceededEventState: ITotalByteLimitExceededEventState = {
+      type: Instrumentation.TotalByteLimitExceeded,
+      bytes: sentBytesCount
+    };
+    instrument(totalByteLimitExceededEventState);
+    teardown();
+  }
+  return unloadUploadState;
 }
 
-function uploadDroppedPayloadsMappingFunction(sequenceNumber: string, droppedPayloadInfo: IDroppedPayloadInfo) {
-  let onSuccess = (status: number) => { onResendDeliverySuccess(droppedPayloadInfo); };
-  let onFailure = (status: number) => { onResendDeliveryFailure(status, droppedPayloadInfo); };
-  upload(droppedPayloadInfo.payload, onSuccess, onFailure);
+function unloadDroppedPayloadsMappingFunction(key: string, droppedPayloadInfo: IDroppedPayloadInfo) {
+  let onSuccess = (status: number) => { onResendDeliverySuccess(status, droppedPayloadInfo); };
+  let onFailure = (status: number, retryAfter?: number) => { onResendDeliveryFailure(status, retryAfter, droppedPayloadInfo); };
+  let droppedSequenceNumber = droppedPayloadInfo.xhrErrorState.sequenceNumber;
+  let unloadUploadState = unloadUpload(droppedPayloadInfo.payload, getPayloadCodec(droppedPayloadInfo), droppedPayloadInfo.checksum,
+                                       droppedSequenceNumber, onSuccess, onFailure);
+  if (unloadUploadState) {
+    instrument(unloadUploadState);
+  }
 }
 
-function upload(payload: string, onSuccess?: UploadCallback, onFailure?: UploadCallback) {
+function upload(payload: string, codec: string, checksum: string, onSuccess?: UploadCallback, onFailure?: UploadCallback) {
+  onSuccess = bindContext(onSuccess);
+  onFailure = bindContext(onFailure);
   if (config.uploadHandler) {
-    config.uploadHandler(payload, onSuccess, onFailure);
+    config.uploadHandler(payload, onSuccess, onFailure, codec, checksum);
   } else {
-    defaultUpload(payload, onSuccess, onFailure);
+    defaultUpload(payload, codec, checksum, onSuccess, onFailure);
   }
   sentBytesCount += payload.length;
 }
 
-function defaultUpload(payload: string, onSuccess?: UploadCallback, onFailure?: UploadCallback) {
+function defaultUpload(payload: string, codec: string, checksum: string, onSuccess?: UploadCallback, onFailure?: UploadCallback) {
   if (config.uploadUrl.length > 0) {
     payload = JSON.stringify(payload);
     let xhr = new XMLHttpRequest();
     xhr.open("POST", config.uploadUrl);
     xhr.setRequestHeader("Content-Type", "application/json");
+    xhr.setRequestHeader(CodecHeader, codec);
+    if (checksum) {
+      xhr.setRequestHeader(ChecksumHeader, checksum);
+    }
     xhr.onreadystatechange = () => { onXhrReadyStatusChange(xhr, onSuccess, onFailure); };
     xhr.send(payload);
   }
 }
 
+// Asynchronous XHR requests are routinely cancelled by browsers when the page is being unloaded,
+// so for the residual payloads we prefer navigator.sendBeacon and fall back to fetch with 'keepalive' flag.
+// Beacon doesn't provide any delivery feedback, so payload accepted by the browser is considered delivered.
+// Custom upload handlers own their transport, so they are invoked as usual and no transport is reported.
+function unloadUpload(payload: string, codec: string, checksum: string, sequenceNumber: number,
+                      onSuccess: UploadCallback, onFailure: UploadCallback): IUnloadUploadEventState {
+  onSuccess = bindContext(onSuccess);
+  onFailure = bindContext(onFailure);
+  if (config.uploadHandler || config.uploadUrl.length === 0) {
+    upload(payload, codec, checksum, onSuccess, onFailure);
+    return null;
+  }
+
+  let body = JSON.stringify(payload);
+  let uploadUrl = getUnloadUploadUrl(codec, checksum);
+  let unloadUploadState: IUnloadUploadEventState = {
+    type: Instrumentation.UnloadUpload,
+    sequenceNumber,
+    transport: UploadTransport.Beacon,
+    beaconAccepted: false
+  };
+
+  if (navigator.sendBeacon) {
+    try {
+      unloadUploadState.beaconAccepted = navigator.sendBeacon(uploadUrl, body);
+    } catch (e) {
+      // Some browsers throw instead of returning false, when payload can't be queued
+    }
+  }
+
+  if (unloadUploadState.beaconAccepted) {
+    onSuccess(200);
+  } else if (window["fetch"]) {
+    // Keep-alive requests with non-simple headers require a preflight, which browsers don't support during unload,
+    // so unlike the default upload, this request is sent without the JSON content type header
+    unloadUploadState.transport = UploadTransport.Fetch;
+    fetch(uploadUrl, { method: "POST", body, keepalive: true }).then(
+      (response: Response) => { onUploadComplete(response.status, response.headers.get("Retry-After"), onSuccess, onFailure); },
+      () => { onFailure(0); }
+    );
+  } else {
+    unloadUploadState.transport = UploadTransport.XMLHttpRequest;
+    defaultUpload(payload, codec, checksum, onSuccess, onFailure);
+  }
+  sentBytesCount += payload.length;
+  return unloadUploadState;
+}
+
+// Unload uploads can't have custom headers, so the codec and the checksum travel in the query string
+function getUnloadUploadUrl(codec: string, checksum: string): string {
+  let uploadUrl = config.uploadUrl;
+  uploadUrl += `${uploadUrl.indexOf("?") >= 0 ? "&" : "?"}${CodecParameter}=${encodeURIComponent(codec)}`;
+  if (checksum) {
+    uploadUrl += `&${ChecksumParameter}=${checksum}`;
+  }
+  return uploadUrl;
+}
+
 function onXhrReadyStatusChange(xhr: XMLHttpRequest, onSuccess: UploadCallback, onFailure: UploadCallback) {
   if (xhr.readyState === XMLHttpRequest.DONE) {
-    // HTTP response status documentation:
-    // https://developer.mozilla.org/en-US/docs/Web/HTTP/Status
-    if (xhr.status < 200 || xhr.status > 208) {
-      onFailure(xhr.status);
-    } else {
-      onSuccess(xhr.status);
-    }
+    let retryAfter = isSuccessStatus(xhr.status) ? null : xhr.getResponseHeader("Retry-After");
+    onUploadComplete(xhr.status, retryAfter, onSuccess, onFailure, xhr.responseText);
+  }
+}
+
+function onUploadComplete(status: number, retryAfter: string, onSuccess: UploadCallback, onFailure: UploadCallback,
+                          response?: string) {
+  if (isSuccessStatus(status)) {
+    onSuccess(status, null, response);
+  } else {
+    onFailure(status, parseRetryAfter(retryAfter));
+  }
+}
+
+function isSuccessStatus(status: number): boolean {
+  // HTTP response status documentation:
+  // https://developer.mozilla.org/en-US/docs/Web/HTTP/Status
+  return status >= 200 && status <= 208;
+}
+
+// Retry-After header contains either a number of seconds to wait or a date, after which it's fine to retry
+function parseRetryAfter(retryAfter: string): number {
+  let delay = 0;
+  if (retryAfter) {
+    let seconds = Number(retryAfter);
+    delay = isNumber(seconds) ? seconds * 1000 : Date.parse(retryAfter) - new Date().getTime();
   }
+  return isNumber(delay) && delay > 0 ? delay : 0;
 }
 
-function onFirstSendDeliveryFailure(status: number, rawPayload: string, compressedPayload: string) {
+function onFirstSendDeliveryFailure(status: number, retryAfter: number, rawPayload: string, checksum: string,
+                                    result: ICompressionResult) {
+  let compressedPayload = result.compressed;
   let sentObj: IPayload = JSON.parse(rawPayload);
   let xhrErrorEventState: IXhrErrorEventState = {
     type: Instrumentation.XhrError,
     requestStatus: status,
+    impressionId: sentObj.envelope.impressionId,
     sequenceNumber: sentObj.envelope.sequenceNumber,
     compressedLength: compressedPayload.length,
     rawLength: rawPayload.length,
-    firstEventId: sentObj.events[0].id,
-    lastEventId: sentObj.events[sentObj.events.length - 1].id,
-    attemptNumber: 0
+    firstEventId: sentObj.envelope.firstEventId,
+    lastEventId: sentObj.envelope.lastEventId,
+    attemptNumber: 0,
+    retryDecision: null,
+    retryDelay: -1
   };
-  droppedPayloads[xhrErrorEventState.sequenceNumber] = {
+  let droppedPayloadInfo: IDroppedPayloadInfo = {
     payload: compressedPayload,
-    xhrErrorState: xhrErrorEventState
+    codec: result.codec,
+    checksum,
+    envelope: sentObj.envelope,
+    xhrErrorState: xhrErrorEventState,
+    time: getTimestamp(true)
   };
-  instrument(xhrErrorEventState);
+  droppedPayloads[getDroppedPayloadKey(droppedPayloadInfo)] = droppedPayloadInfo;
   sentBytesCount -= compressedPayload.length;
+  scheduleRetry(droppedPayloadInfo, retryAfter);
 }
 
-function onResendDeliveryFailure(status: number, droppedPayloadInfo: IDroppedPayloadInfo) {
+function onResendDeliveryFailure(status: number, retryAfter: number, droppedPayloadInfo: IDroppedPayloadInfo) {
   droppedPayloadInfo.xhrErrorState.requestStatus = status;
   droppedPayloadInfo.xhrErrorState.attemptNumber++;
-  instrument(droppedPayloadInfo.xhrErrorState);
+  reportUploadResult(droppedPayloadInfo.envelope, status, false, droppedPayloadInfo.xhrErrorState.attemptNumber);
+  scheduleRetry(droppedPayloadInfo, retryAfter);
+}
+
+function onResendDeliverySuccess(status: number, droppedPayloadInfo: IDroppedPayloadInfo) {
+  let key = getDroppedPayloadKey(droppedPayloadInfo);
+  reportUploadResult(droppedPayloadInfo.envelope, status, true, droppedPayloadInfo.xhrErrorState.attemptNumber + 1);
+  delete droppedPayloads[key];
+  delete retryTimes[key];
+  removeStoredPayload(droppedPayloadInfo.xhrErrorState.impressionId, droppedPayloadInfo.xhrErrorState.sequenceNumber);
+}
+
+// Replay payloads that previous page loads on this origin failed to deliver
+function replayUndeliveredPayloads() {
+  if (config.uploadHandler || config.uploadUrl.length > 0) {
+    claimStoredPayloads(bindContext(replayStoredPayloads));
+  }
+  scheduleNextRetry();
+}
+
+// Stored payloads are replayed with their original envelopes through the same retry queue as this page's own payloads.
+// Payloads that fail again go back to the storage, so attempt number keeps counting across page loads.
+function replayStoredPayloads(storedPayloads: IDroppedPayloadInfo[]) {
+  let now = getTimestamp(true);
+  for (let droppedPayloadInfo of storedPayloads) {
+    let key = getDroppedPayloadKey(droppedPayloadInfo);
+    droppedPayloads[key] = droppedPayloadInfo;
+    retryTimes[key] = now;
+  }
+  scheduleNextRetry();
+}
+
+// Decide whether and when the dropped payload should be retried and report that decision along with the error.
+// Delay grows exponentially with every attempt and is jittered, so that dropped payloads don't all retry at once.
+// Retry-After and 'Too Many Requests' or 'Service Unavailable' statuses hold off retries of all payloads, not just this one.
+function scheduleRetry(droppedPayloadInfo: IDroppedPayloadInfo, retryAfter: number) {
+  let xhrErrorState = droppedPayloadInfo.xhrErrorState;
+  let key = getDroppedPayloadKey(droppedPayloadInfo);
+
+  // Uploads that were already in flight when consent was denied are neither retried nor kept, once they fail
+  if (consent === "denied") {
+    delete droppedPayloads[key];
+    delete retryTimes[key];
+    removeStoredPayload(xhrErrorState.impressionId, xhrErrorState.sequenceNumber);
+    return;
+  }
+  if (xhrErrorState.attemptNumber < config.retryLimit) {
+    let now = getTimestamp(true);
+    let delay = Math.min(config.retryDelay * Math.pow(2, xhrErrorState.attemptNumber), config.retryMaxDelay);
+    delay = Math.round(delay / 2 + Math.random() * delay / 2);
+    if (retryAfter > 0) {
+      delay = Math.max(delay, retryAfter);
+    }
+    if (retryAfter > 0 || xhrErrorState.requestStatus === 429 || xhrErrorState.requestStatus === 503) {
+      retryBlockedUntil = Math.max(retryBlockedUntil, now + delay);
+    }
+    xhrErrorState.retryDecision = RetryDecision.Scheduled;
+    xhrErrorState.retryDelay = delay;
+    retryTimes[key] = now + delay;
+    storePayload(droppedPayloadInfo, state === State.Unloaded ? null : impressionId);
+    scheduleHeartbeat();
+  } else {
+    xhrErrorState.retryDecision = RetryDecision.Abandoned;
+    xhrErrorState.retryDelay = -1;
+    updatePayloadStatus(droppedPayloadInfo.envelope, PayloadStatus.Dropped);
+    delete droppedPayloads[key];
+    delete retryTimes[key];
+    removeStoredPayload(xhrErrorState.impressionId, xhrErrorState.sequenceNumber);
+  }
+  instrument(xhrErrorState);
+  scheduleNextRetry();
+}
+
+// Stored payloads of this page are kept from other pages on the same origin, while it keeps retrying them
+function scheduleHeartbeat() {
+  if (heartbeatTimeout === null && state === State.Activated) {
+    heartbeatTimeout = setTimeout(bindContext(() => {
+      heartbeatTimeout = null;
+      if (Object.keys(droppedPayloads).length > 0) {
+        refreshStoredPayloads(impressionId);
+        scheduleHeartbeat();
+      }
+    }), config.retryMaxDelay);
+  }
+}
+
+// Retries happen one at a time: the next one is scheduled only after the previous one has completed
+function scheduleNextRetry() {
+  clearTimeout(retryTimeout);
+  if (state !== State.Activated || retryInProgress || retriesPaused) {
+    return;
+  }
+
+  let nextKey: string = null;
+  for (let key in retryTimes) {
+    if (retryTimes.hasOwnProperty(key) && (nextKey === null || retryTimes[key] < retryTimes[nextKey])) {
+      nextKey = key;
+    }
+  }
+
+  if (nextKey !== null) {
+    let delay = Math.max(retryTimes[nextKey], retryBlockedUntil) - getTimestamp(true);
+    if (delay > 0) {
+      retryTimeout = setTimeout(bindContext(() => { retryDroppedPayload(nextKey); }), delay);
+    } else {
+      retryDroppedPayload(nextKey);
+    }
+  }
+}
+
+function retryDroppedPayload(key: string) {
+  let droppedPayloadInfo = droppedPayloads[key];
+  if (!droppedPayloadInfo) {
+    return;
+  }
+
+  // Retrying without network connection is pointless, so retries are paused until the 'online' event
+  if (navigator.onLine === false) {
+    retriesPaused = true;
+    droppedPayloadInfo.xhrErrorState.retryDecision = RetryDecision.Offline;
+    droppedPayloadInfo.xhrErrorState.retryDelay = -1;
+    instrument(droppedPayloadInfo.xhrErrorState);
+    return;
+  }
+
+  let onSuccess = (status: number) => {
+    retryInProgress = false;
+    onResendDeliverySuccess(status, droppedPayloadInfo);
+    scheduleNextRetry();
+  };
+  let onFailure = (status: number, retryAfter?: number) => {
+    retryInProgress = false;
+    onResendDeliveryFailure(status, retryAfter, droppedPayloadInfo);
+  };
+  delete retryTimes[key];
+  retryInProgress = true;
+  upload(droppedPayloadInfo.payload, getPayloadCodec(droppedPayloadInfo), droppedPayloadInfo.checksum, onSuccess, onFailure);
+}
+
+// Payloads stored by the versions that didn't name the codec were all encoded with the default one
+function getPayloadCodec(droppedPayloadInfo: IDroppedPayloadInfo): string {
+  return droppedPayloadInfo.codec || DefaultCodec;
+}
+
+function resumeRetries() {
+  retriesPaused = false;
+  scheduleNextRetry();
+}
+
+function reportUploadResult(payloadEnvelope: IEnvelope, status: number, delivered: boolean, attemptNumber: number) {
+  let result: IUploadResult = {
+    envelope: payloadEnvelope,
+    status,
+    delivered,
+    attemptNumber
+  };
+  if (delivered) {
+    updatePayloadStatus(payloadEnvelope, PayloadStatus.Delivered);
+  }
+  invokeHook(config.onUploadResult, result);
+}
+
+// Exceptions in the host page's hooks shouldn't break the upload pipeline
+function invokeHook<T>(hook: (arg: T) => void, arg: T) {
+  if (hook) {
+    try {
+      hook(arg);
+    } catch (e) {
+      debug(`>>> Clarity upload hook failed: ${e}`);
+    }
+  }
 }
 
-function onResendDeliverySuccess(droppedPayloadInfo: IDroppedPayloadInfo) {
-  delete droppedPayloads[droppedPayloadInfo.xhrErrorState.sequenceNumber];
+function getDroppedPayloadKey(droppedPayloadInfo: IDroppedPayloadInfo): string {
+  return `${droppedPayloadInfo.xhrErrorState.impressionId}/${droppedPayloadInfo.xhrErrorState.sequenceNumber}`;
 }
 
 function init() {
   // Reset own state
   bytes = [];
-  cid = getCookie(Cookie);
+  let identity = readClarityId();
+  cid = identity ? identity.clarityId : null;
+  identityMode = identity ? identity.mode : null;
   impressionId = guid();
   sequence = 0;
   eventCount = 0;
   startTime = getUnixTimestamp();
+  root = getRoot();
+  session = null;
   activePlugins = [];
+  quarantinedPlugins = [];
   bindings = {};
   nextPayload = [];
   droppedPayloads = {};
+  retryTimes = {};
+  heartbeatTimeout = null;
+  retryBlockedUntil = 0;
+  retryInProgress = false;
+  retriesPaused = false;
   nextPayloadLength = 0;
+  nextPayloadXhrErrorsOnly = true;
+  nextPayloadFirstEventId = null;
+  nextPayloadLastEventId = null;
+  priorityEvents = [];
+  priorityTimeout = null;
+  payloadStatuses = [];
+  deliveredEventCount = 0;
+  budgetState = createBudgetState();
+  budgetTimeout = null;
+  profilerState = createProfilerState();
+  profileTimeout = null;
   sentBytesCount = 0;
+  consent = config.consent;
+  resetConsentBuffer();
+  paused = false;
+  pauseIntervals = [];
 
-  // If CID cookie isn't present, set it now
-  if (!cid) {
-    cid = guid();
-    setCookie(Cookie, cid);
+  // Without consent Clarity doesn't record anything, so it doesn't activate either
+  if (consent === "denied") {
+    return false;
   }
 
-  // Check that no other instance of Clarity is already running on the page
-  if (document[ClarityAttribute]) {
+  // Impressions outside of the sample aren't recorded at all
+  if (!(Math.random() < config.sampleRate)) {
+    return false;
+  }
+
+  // ClarityId is only written once the user consents to recording
+  if (consent === "granted") {
+    ensureClarityId();
+  }
+
+  // Check that no other instance of Clarity is already recording this part of the page
+  let overlappingRoot = getOverlappingRoot();
+  if (overlappingRoot) {
     let eventState: IClarityDuplicatedEventState = {
       type: Instrumentation.ClarityDuplicated,
-      currentImpressionId: document[ClarityAttribute]
+      currentImpressionId: overlappingRoot[ClarityAttribute]
     };
     instrument(eventState);
     teardown();
@@ -283,6 +1488,61 @@ function init() {
   return true;
 }
 
+// If ClarityId isn't present, set it now
+function ensureClarityId() {
+  if (!cid) {
+    cid = guid();
+    identityMode = writeClarityId(cid);
+  }
+}
+
+// Recorders can't share nodes, so roots of different recorders can't contain one another.
+// Roots of the recorders that run above this one are marked, while the ones below are found among active contexts.
+function getOverlappingRoot(): Node {
+  for (let node = root; node; node = node.parentNode) {
+    if (node[ClarityAttribute]) {
+      return node;
+    }
+  }
+
+  for (let context of activeContexts) {
+    for (let node = context.root; node; node = node.parentNode) {
+      if (node === root) {
+        return context.root;
+      }
+    }
+  }
+  return null;
+}
+
+// Module variables of the current recorder are saved into its context, before they are replaced with the new one's
+function switchContext(context: ICoreContext) {
+  let savedContext: ICoreContext = {
+    config, state, bytes, sentBytesCount, cid, identityMode, impressionId, sequence, eventCount, startTime, root, session,
+    activePlugins, quarantinedPlugins, bindings, subscribers, droppedPayloads, retryTimes, retryTimeout, heartbeatTimeout,
+    retryBlockedUntil, retryInProgress, retriesPaused, timeout, nextPayload, nextPayloadLength, nextPayloadXhrErrorsOnly,
+    nextPayloadFirstEventId, nextPayloadLastEventId, priorityEvents, priorityTimeout, payloadStatuses, deliveredEventCount,
+    budgetState, budgetTimeout, profilerState, profileTimeout, consent, consentBuffer, consentBufferLength,
+    consentBufferDroppedCount, paused, pauseStart, pauseIntervals, remoteConfigPending
+  };
+  for (let property in savedContext) {
+    if (savedContext.hasOwnProperty(property)) {
+      currentContext[property] = savedContext[property];
+    }
+  }
+
+  ({
+    state, bytes, sentBytesCount, cid, identityMode, impressionId, sequence, eventCount, startTime, root, session,
+    activePlugins, quarantinedPlugins, bindings, subscribers, droppedPayloads, retryTimes, retryTimeout, heartbeatTimeout,
+    retryBlockedUntil, retryInProgress, retriesPaused, timeout, nextPayload, nextPayloadLength, nextPayloadXhrErrorsOnly,
+    nextPayloadFirstEventId, nextPayloadLastEventId, priorityEvents, priorityTimeout, payloadStatuses, deliveredEventCount,
+    budgetState, budgetTimeout, profilerState, profileTimeout, consent, consentBuffer, consentBufferLength,
+    consentBufferDroppedCount, paused, pauseStart, pauseIntervals, remoteConfigPending
+  } = context);
+  useConfig(context.config);
+  currentContext = context;
+}
+
 function checkFeatures() {
   let missingFeatures = [];
   let expectedFeatures = [
@@ -316,3 +1576,5 @@ function checkFeatures() {
 
 // Initialize bindings early, so that registering and wiring up can be done properly
 bindings = {};
+subscribers = {};
+currentContext = { config, state, bindings, subscribers } as ICoreContext;
@@ -0,0 +1,64 @@
+import { Schema } from "./schema";
+
+// Reference decoder of the compact event format. It turns payloads back into the shape they have without it,
+// so that backends can decode payloads first and keep processing them as before.
+const schemas: { [version: number]: IEventSchema } = {
+  1: Schema
+};
+
+// Payloads without schema in the envelope are returned as they are
+export function decodePayload(payload: IPayload): IPayload {
+  let version = payload.envelope.schema;
+  if (typeof version !== "number") {
+    return payload;
+  }
+
+  let schema = schemas[version];
+  if (!schema) {
+    throw new Error(`Unknown event schema version: ${version}`);
+  }
+
+  let envelope: IEnvelope = JSON.parse(JSON.stringify(payload.envelope));
+  let events: IEvent[] = [];
+  delete envelope.schema;
+  for (let compactEvent of payload.events as any[]) {
+    events.push(decodeEvent(compactEvent, schema));
+  }
+  return { envelope, events };
+}
+
+export function decodeEvent(compactEvent: CompactEvent, schema: IEventSchema): IEvent {
+  let type = compactEvent[2];
+  if (typeof type !== "number") {
+    return { id: compactEvent[0], time: compactEvent[1], type, state: compactEvent[3] };
+  }
+
+  let typeSchema = schema.events[type];
+  if (!typeSchema) {
+    throw new Error(`Unknown event type ${type} in event schema version ${schema.version}`);
+  }
+
+  let defaults = typeSchema.defaults || {};
+  let nested = typeSchema.nested || {};
+  let state = {};
+  for (let i = 0; i < typeSchema.fields.length; i++) {
+    let field = typeSchema.fields[i];
+    let value = compactEvent[i + 3];
+    if (value === null || value === undefined) {
+      if (defaults.hasOwnProperty(field)) {
+        state[field] = defaults[field];
+      }
+    } else {
+      state[field] = nested.hasOwnProperty(field) ? decodeNested(value, nested[field]) : value;
+    }
+  }
+  return { id: compactEvent[0], time: compactEvent[1], type: typeSchema.type, state };
+}
+
+function decodeNested(values: any[], nestedFields: string[]): any {
+  let value = {};
+  for (let i = 0; i < values.length; i++) {
+    value[nestedFields[i]] = values[i];
+  }
+  return value;
+}
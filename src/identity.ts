@@ -0,0 +1,75 @@
+import { config } from "./config";
+import { getCookie, setCookie } from "./utils";
+
+// ClarityId can be kept in a cookie, which makes it stable across visits, in sessionStorage, which keeps it
+// for the lifetime of the tab, or in memory, which only keeps it until the page is unloaded.
+// When configured mode can't be used (e.g. cookies are blocked), Clarity falls back to the next, less stable one.
+const StorageKey = "clarity-id";
+const Modes: IdentityMode[] = ["cookie", "session", "memory"];
+
+let memoryId: string = null;
+
+export function readClarityId(): IClarityIdentity {
+  for (let mode of getModes()) {
+    let clarityId = read(mode);
+    if (clarityId) {
+      return { clarityId, mode };
+    }
+  }
+  return null;
+}
+
+// Returns the mode that ended up keeping the id
+export function writeClarityId(clarityId: string): IdentityMode {
+  for (let mode of getModes()) {
+    write(mode, clarityId);
+    if (read(mode) === clarityId) {
+      return mode;
+    }
+  }
+  return "memory";
+}
+
+function getModes(): IdentityMode[] {
+  let index = Modes.indexOf(config.identityMode);
+  return Modes.slice(index >= 0 ? index : 0);
+}
+
+function read(mode: IdentityMode): string {
+  switch (mode) {
+    case "cookie":
+      return getCookie(config.cookieName);
+    case "session":
+      // Storage can be disabled, in which case access to it throws
+      try {
+        return sessionStorage.getItem(StorageKey);
+      } catch (e) {
+        return null;
+      }
+    default:
+      return memoryId;
+  }
+}
+
+function write(mode: IdentityMode, clarityId: string) {
+  switch (mode) {
+    case "cookie":
+      setCookie(config.cookieName, clarityId, {
+        expiryDays: config.cookieExpiry,
+        domain: config.cookieDomain,
+        sameSite: config.cookieSameSite,
+        secure: config.cookieSecure
+      });
+      break;
+    case "session":
+      try {
+        sessionStorage.setItem(StorageKey, clarityId);
+      } catch (e) {
+        // Ignore
+      }
+      break;
+    default:
+      memoryId = clarityId;
+      break;
+  }
+}
@@ -0,0 +1,86 @@
+import computeChecksum from "./checksum";
+import { DefaultCodec } from "./codecs";
+import { decodePayload } from "./decoder";
+import { decode } from "./uncompress";
+import { validatePayload } from "./validation";
+
+// Server side of the upload pipeline, which runs in Node as well as in the browser. Backends read every upload
+// into a payload, whose events have their regular shape even if they were uploaded compact, and then reassemble
+// the payloads of each impression into its timeline.
+export { reassemble } from "./timeline";
+export { validatePayload } from "./validation";
+
+// Body is the raw body of the upload request, while codec and checksum come from its headers, or from the query string
+// of the uploads sent during unload. Uploads without the codec are the ones sent by the versions that always used
+// "lz-base64", and uploads without the checksum are accepted as they are.
+export function readUpload(body: string, codec: string, checksum: string, callback: ReadUploadCallback) {
+  let encoded: string;
+  try {
+    encoded = JSON.parse(body);
+  } catch (e) {
+    callback(new Error(`Upload body isn't valid JSON: ${e.message}`));
+    return;
+  }
+
+  if (typeof encoded !== "string") {
+    callback(new Error("Upload body isn't an encoded payload"));
+    return;
+  }
+
+  // Decoders don't expect malformed input, so they may throw as well as fail to produce a result
+  let decoded = false;
+  codec = codec || DefaultCodec;
+  try {
+    decode(encoded, codec, (uncompressed: string) => {
+      decoded = true;
+      readPayload(uncompressed, codec, checksum, callback);
+    });
+  } catch (e) {
+    if (decoded) {
+      throw e;
+    }
+    callback(new Error(`Upload couldn't be decoded with codec "${codec}": ${e.message}`));
+  }
+}
+
+function readPayload(uncompressed: string, codec: string, checksum: string, callback: ReadUploadCallback) {
+  if (typeof uncompressed !== "string" || uncompressed.length === 0) {
+    callback(new Error(`Upload couldn't be decoded with codec "${codec}"`));
+    return;
+  }
+
+  if (checksum && computeChecksum(uncompressed) !== checksum.toLowerCase()) {
+    callback(new Error(`Checksum of the decoded upload doesn't match ${checksum}`));
+    return;
+  }
+
+  let payload: IPayload;
+  try {
+    payload = JSON.parse(uncompressed);
+  } catch (e) {
+    callback(new Error(`Decoded upload isn't valid JSON: ${e.message}`));
+    return;
+  }
+
+  let errors = validatePayload(payload);
+  if (errors.length > 0) {
+    callback(new Error(`Upload isn't a valid payload: ${errors.join("; ")}`));
+    return;
+  }
+
+  let decodedPayload: IPayload;
+  try {
+    decodedPayload = decodePayload(payload);
+  } catch (e) {
+    callback(e);
+    return;
+  }
+
+  // Compact events can only be checked against the state of their type once they are decoded
+  errors = decodedPayload !== payload ? validatePayload(decodedPayload) : [];
+  if (errors.length > 0) {
+    callback(new Error(`Upload isn't a valid payload: ${errors.join("; ")}`));
+    return;
+  }
+  callback(null, decodedPayload);
+}
@@ -5,8 +5,65 @@ import performance from "./plugins/performance";
 import pointer from "./plugins/pointer";
 import viewport from "./plugins/viewport";
 
-const classes = { layout, viewport, pointer, performance, errors, customdata };
+const classes: { [name: string]: IPluginClass } = { layout, viewport, pointer, performance, errors, customdata };
 
-export default function getPlugin(name: string) {
-  return classes[name];
+export default function getPlugin(name: string): IPluginClass {
+  return classes.hasOwnProperty(name) ? classes[name] : null;
+}
+
+// Plugins run after the plugins they depend on. Plugin is rejected when one of its dependencies isn't in the list,
+// was rejected itself, or depends on the plugin in turn, since it can't work as intended without them.
+// Names that aren't registered yet are kept, so that they can start once they are registered.
+export function orderPlugins(names: string[], reject?: (name: string, reason: string) => void): string[] {
+  let ordered: string[] = [];
+  let rejected: string[] = [];
+  let visit = (name: string, path: string[]): boolean => {
+    if (ordered.indexOf(name) >= 0 || rejected.indexOf(name) >= 0) {
+      return ordered.indexOf(name) >= 0;
+    }
+
+    let pluginClass = getPlugin(name);
+    let dependencies = (pluginClass && pluginClass.dependencies) || [];
+    for (let dependency of dependencies) {
+      let reason = names.indexOf(dependency) < 0 || !getPlugin(dependency) ? `Plugin depends on ${dependency}, which isn't active`
+        : path.indexOf(dependency) >= 0 ? `Plugin depends on ${dependency}, which depends on it in turn`
+        : !visit(dependency, path.concat(dependency)) ? `Plugin depends on ${dependency}, which was rejected`
+        : null;
+      if (reason) {
+        rejected.push(name);
+        if (reject) {
+          reject(name, reason);
+        }
+        return false;
+      }
+    }
+    ordered.push(name);
+    return true;
+  };
+
+  for (let name of names) {
+    visit(name, [name]);
+  }
+  return ordered;
+}
+
+// Plugins are shared by all recorders, which pick the ones to run through the plugins config option.
+// Names are taken by the first plugin registered under them, so a plugin can't replace a built-in one
+// or the one of another team, whose recorders may already be running it. Returns the reason of rejection, if any.
+export function addPlugin(name: string, pluginClass: IPluginClass): string {
+  if (typeof name !== "string" || name.length === 0) {
+    return "Plugin name has to be a non-empty string";
+  } else if (classes.hasOwnProperty(name)) {
+    return "Plugin name is already taken";
+  } else if (!isPluginClass(pluginClass)) {
+    return "Plugin has to be a class that implements activate, teardown and reset";
+  }
+  classes[name] = pluginClass;
+  return null;
+}
+
+function isPluginClass(pluginClass: IPluginClass): boolean {
+  let prototype = typeof pluginClass === "function" ? pluginClass.prototype : null;
+  return !!prototype && typeof prototype.activate === "function" && typeof prototype.teardown === "function"
+    && typeof prototype.reset === "function";
 }
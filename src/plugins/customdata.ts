@@ -7,7 +7,7 @@ export default class CustomData implements IPlugin {
     private eventName = "Custom";
 
     public activate() {
-        bind(window, "claritydata", this.customDataHandler.bind(this));
+        bind(window, "claritydata", this.customDataHandler.bind(this), this);
     }
 
     public reset(): void {
@@ -19,6 +19,6 @@ export default class CustomData implements IPlugin {
     }
 
     private customDataHandler(customEvent: ICustomEvent) {
-		addEvent(this.eventName, { type: customEvent.detail.type, data: customEvent.detail.data });
+		addEvent(this.eventName, { type: customEvent.detail.type, data: customEvent.detail.data }, undefined, !!customEvent.detail.critical);
     }
 }
@@ -5,7 +5,7 @@ export default class ErrorMonitor implements IPlugin {
     private errorCount: number;
 
     public activate() {
-        bind(window, "error", logError);
+        bind(window, "error", logError, this);
     }
 
     public reset(): void {
@@ -1,12 +1,13 @@
 import { config } from "./../config";
-import { addEvent, bind, getTimestamp } from "./../core";
+import { addEvent, bind, getRoot, getTimestamp, guard, profile } from "./../core";
 import { assert, debug, isNumber, traverseNodeTree } from "./../utils";
 import { ShadowDom } from "./layout/shadowdom";
 import { createGenericLayoutState, createLayoutState, getNodeIndex, IgnoreTag, NodeIndex } from "./layout/stateprovider";
 
 export default class Layout implements IPlugin {
   private eventName = "Layout";
-  private distanceThreshold = 5;
+  private distanceThreshold: number;
+  private root: Node;
   private shadowDom: ShadowDom;
   private shadowDomConsistent: boolean;
   private observer: MutationObserver;
@@ -15,24 +16,32 @@ export default class Layout implements IPlugin {
   private domDiscoverComplete: boolean;
   private domDiscoverQueue: number[];
   private domPreDiscoverMutations: MutationRecord[][];
+  private domPausedMutations: MutationRecord[][];
   private originalProperties: INodePreUpdateInfo[];
+  private paused: boolean;
+  private backfillOnResume: () => void;
 
-  public reset(): void {
-    this.shadowDom = new ShadowDom();
+  public reset(options: ILayoutOptions): void {
+    this.distanceThreshold = options.distanceThreshold;
+    this.root = getRoot();
+    this.shadowDom = new ShadowDom(this.root);
     this.shadowDomConsistent = false;
     this.watchList = [];
-    this.observer = window["MutationObserver"] ? new MutationObserver(this.mutationCallback.bind(this)) : null;
+    this.observer = window["MutationObserver"] ? new MutationObserver(guard(this, this.mutationCallback.bind(this))) : null;
     this.mutationSequence = 0;
     this.domDiscoverComplete = false;
     this.domDiscoverQueue = [];
     this.domPreDiscoverMutations = [];
+    this.domPausedMutations = [];
     this.originalProperties = [];
+    this.paused = false;
+    this.backfillOnResume = null;
   }
 
   public activate(): void {
     this.discoverDom();
     if (this.observer) {
-      this.observer.observe(document, {
+      this.observer.observe(this.root, {
         attributes: true,
         childList: true,
         characterData: true,
@@ -58,6 +67,41 @@ export default class Layout implements IPlugin {
     }
   }
 
+  // ShadowDom stays as it was at the moment of the pause, while mutations that happen during the pause
+  // are queued. Observer delivers mutations asynchronously, so the ones that happened right before the pause
+  // are taken out of its queue and processed now, while events can still be recorded.
+  public pause(): void {
+    let mutations = this.observer ? this.observer.takeRecords() : [];
+    if (mutations.length > 0) {
+      this.mutationCallback(mutations);
+    }
+    this.paused = true;
+  }
+
+  // Applying all queued mutations as a single batch brings ShadowDom to the current state of the page
+  // and the batch summary only contains the net changes, which is the compact diff that the server needs.
+  // Nodes that were both added and removed during the pause, for instance, never appear in it.
+  public resume(): void {
+    let mutations = this.observer ? this.observer.takeRecords() : [];
+    if (mutations.length > 0) {
+      this.mutationCallback(mutations);
+    }
+    this.paused = false;
+
+    if (this.domDiscoverComplete) {
+      let allMutationRecords = Array.prototype.concat.apply([], this.domPausedMutations);
+      this.domPausedMutations = [];
+      if (allMutationRecords.length > 0) {
+        this.mutation(allMutationRecords, getTimestamp(), Source.Resume);
+      }
+      this.catchUpWatchedElements();
+    } else if (this.backfillOnResume) {
+      let backfill = this.backfillOnResume;
+      this.backfillOnResume = null;
+      backfill();
+    }
+  }
+
   // Recording full layouts of all elements on the page at once is an expensive operation
   // and can impact user's experience by hanging the page due to occupying the thread for too long
   // To avoid this, we only assign indices to all elements and build a ShadowDom with dummy layouts
@@ -66,8 +110,8 @@ export default class Layout implements IPlugin {
   // and returning to it later through a set timeout
   private discoverDom() {
     let discoverTime = getTimestamp();
-    traverseNodeTree(document, this.discoverNode.bind(this));
-    this.shadowDomConsistent = this.shadowDom.mirrorsRealDom();
+    traverseNodeTree(this.root, this.discoverNode.bind(this));
+    this.shadowDomConsistent = profile("layout.consistency", () => this.shadowDom.mirrorsRealDom());
     assert(this.shadowDomConsistent, "discoverDom", "shadowDom inconsistent after dom discovery");
     this.backfillLayoutsAsync(discoverTime, this.onDomDiscoverComplete.bind(this));
   }
@@ -92,8 +136,27 @@ export default class Layout implements IPlugin {
   // if it does, store original values. Then, when we record the layout of the mutated node,
   // we can adjust the current layout JSON with the original values to mimic its initial state.
   private backfillLayoutsAsync(time: number, onDomDiscoverComplete: () => void) {
+    profile("layout.backfill", () => { this.backfillLayouts(time); });
+
+    // If recording is paused, finish processing once it's resumed, since events can't be recorded until then
+    // If there are more elements that need to be processed, yield the thread and return ASAP
+    if (this.paused) {
+      this.backfillOnResume = () => {
+        this.backfillLayoutsAsync(time, onDomDiscoverComplete);
+      };
+    } else if (this.domDiscoverQueue.length !== 0) {
+      setTimeout(guard(this, () => {
+        this.backfillLayoutsAsync(time, onDomDiscoverComplete);
+      }), 0);
+    } else {
+      onDomDiscoverComplete();
+    }
+  }
+
+  // Records the layouts of the nodes in the queue until it's time to yield the thread
+  private backfillLayouts(time: number) {
     let yieldTime = getTimestamp(true) + config.timeToYield;
-    while (this.domDiscoverQueue.length > 0 && getTimestamp(true) < yieldTime) {
+    while (this.domDiscoverQueue.length > 0 && getTimestamp(true) < yieldTime && !this.paused) {
       let index = this.domDiscoverQueue.shift();
       let shadowNode = this.shadowDom.getShadowNode(index);
 
@@ -133,15 +196,6 @@ export default class Layout implements IPlugin {
         shadowNode.layout = layoutState;
       }
     }
-
-    // If there are more elements that need to be processed, yield the thread and return ASAP
-    if (this.domDiscoverQueue.length !== 0) {
-      setTimeout(() => {
-        this.backfillLayoutsAsync(time, onDomDiscoverComplete);
-      }, 0);
-    } else {
-      onDomDiscoverComplete();
-    }
   }
 
   // Mark dom discovery process completed and process mutations that happened on the page up to this point
@@ -279,22 +333,46 @@ export default class Layout implements IPlugin {
     if (scrollPossible) {
       layoutState.layout.scrollX = Math.round(element.scrollLeft);
       layoutState.layout.scrollY = Math.round(element.scrollTop);
-      bind(element, "scroll", this.layoutHandler.bind(this, element, Source.Scroll));
+      bind(element, "scroll", this.layoutHandler.bind(this, element, Source.Scroll), this);
       this.watchList[layoutState.index] = true;
     }
 
     // Check if we need to monitor changes to input fields
     if (element.tagName === "INPUT") {
-      bind(element, "change", this.layoutHandler.bind(this, element, Source.Input));
+      bind(element, "change", this.layoutHandler.bind(this, element, Source.Input), this);
       this.watchList[layoutState.index] = true;
     }
   }
 
+  // Scroll and change events that fire during the pause are dropped, so once recording resumes, watched elements
+  // are read again and the ones that were scrolled or changed in the meantime are recorded with the Resume source.
+  private catchUpWatchedElements() {
+    for (let index = 0; index < this.watchList.length; index++) {
+      let shadowNode = this.watchList[index] ? this.shadowDom.getShadowNode(index) : null;
+      if (shadowNode) {
+        let element = shadowNode.node as Element;
+        let lastLayoutState = shadowNode.layout as IElementLayoutState;
+        if (lastLayoutState.layout && isNumber(lastLayoutState.layout.scrollX)) {
+          this.updateWatchedElement(element, Source.Scroll, Source.Resume);
+        }
+        if (element.tagName === "INPUT" && lastLayoutState.attributes.value !== element["value"]) {
+          this.updateWatchedElement(element, Source.Input, Source.Resume);
+        }
+      }
+    }
+  }
+
   private layoutHandler(element: Element, source: Source) {
+    if (!this.paused) {
+      this.updateWatchedElement(element, source, source);
+    }
+  }
+
+  // Change is the property that is read again, Scroll or Input, while source is the one that the update is recorded with
+  private updateWatchedElement(element: Element, change: Source, source: Source) {
     let index = getNodeIndex(element);
     let recordEvent = true;
     if (index !== null) {
-      let time = getTimestamp();
       let lastLayoutState = this.shadowDom.getShadowNode(index).layout;
 
       // Deep-copy an existing layout JSON
@@ -302,7 +380,7 @@ export default class Layout implements IPlugin {
       newLayoutState.source = source;
       newLayoutState.action = Action.Update;
 
-      switch (source) {
+      switch (change) {
         case Source.Scroll:
           newLayoutState.layout.scrollX = Math.round(element.scrollLeft);
           newLayoutState.layout.scrollY = Math.round(element.scrollTop);
@@ -333,28 +411,30 @@ export default class Layout implements IPlugin {
 
   private mutationCallback(mutations: MutationRecord[]) {
     let time = getTimestamp();
-    if (this.domDiscoverComplete) {
-      this.mutation(mutations, time);
-    } else {
+    if (!this.domDiscoverComplete) {
       this.preDiscoverMutation(mutations, time);
+    } else if (this.paused) {
+      this.domPausedMutations.push(mutations);
+    } else {
+      this.mutation(mutations, time);
     }
   }
 
-  private mutation(mutations: MutationRecord[], time: number) {
+  private mutation(mutations: MutationRecord[], time: number, source: Source = Source.Mutation) {
     // Don't process mutations on top of the inconsistent state.
     // ShadowDom mutation processing logic requires consistent state as a prerequisite.
     // If we end up in the inconsistent state, that means that something went wrong already,
     // so we can give up on the following mutations and should investigate the cause of the error.
     // Continuing to process mutations can result in javascript errors and lead to even more inconsistencies.
     if (this.shadowDomConsistent) {
-      let summary = this.shadowDom.applyMutationBatch(mutations);
+      let summary = profile("layout.mutations", () => this.shadowDom.applyMutationBatch(mutations));
 
       // Make sure ShadowDom arrived to the consistent state
-      this.shadowDomConsistent = this.shadowDom.mirrorsRealDom();
+      this.shadowDomConsistent = profile("layout.consistency", () => this.shadowDom.mirrorsRealDom());
       assert(this.shadowDomConsistent, "mutation", `shadowDomInconsistent after mutation sequence ${this.mutationSequence}`);
 
       if (this.shadowDomConsistent) {
-        this.processMutations(summary, time);
+        this.processMutations(summary, time, source);
       } else {
         debug(`>>> ShadowDom doesn't match PageDOM after mutation batch #${this.mutationSequence}!`);
       }
@@ -362,14 +442,14 @@ export default class Layout implements IPlugin {
     this.mutationSequence++;
   }
 
-  private processMutations(summary: IShadowDomMutationSummary, time: number) {
+  private processMutations(summary: IShadowDomMutationSummary, time: number, source: Source) {
 
     // Process new nodes
     for (let i = 0; i < summary.newNodes.length; i++) {
       let node = summary.newNodes[i].node;
       this.processNodeEvent({
         node,
-        source: Source.Mutation,
+        source,
         action: Action.Insert,
         time
       });
@@ -380,7 +460,7 @@ export default class Layout implements IPlugin {
       let node = summary.movedNodes[i].node;
       this.processNodeEvent({
         node,
-        source: Source.Mutation,
+        source,
         action: Action.Move,
         time
       });
@@ -391,7 +471,7 @@ export default class Layout implements IPlugin {
       let node = summary.updatedNodes[i].node;
       this.processNodeEvent({
         node,
-        source: Source.Mutation,
+        source,
         action: Action.Update,
         time
       });
@@ -402,7 +482,7 @@ export default class Layout implements IPlugin {
       let shadowNode = summary.removedNodes[i] as IShadowDomNode;
       this.processNodeEvent({
         node: shadowNode.node,
-        source: Source.Mutation,
+        source,
         action: Action.Remove,
         time
       });
@@ -10,6 +10,7 @@ const UpdatedNodeClassName = "cl-updated";
 
 export class ShadowDom {
   public doc = document.implementation.createHTMLDocument("ShadowDom");
+  public root: Node;
 
   private nextIndex = 0;
   private removedNodes = this.doc.createElement("div");
@@ -17,7 +18,9 @@ export class ShadowDom {
   private shadowDocument: IShadowDomNode = null;
   private classifyNodes = false;
 
-  constructor() {
+  // Root is the document, unless recording is scoped to a subtree
+  constructor(root?: Node) {
+    this.root = root || document;
     this.doc.documentElement.appendChild(this.shadowDomRoot);
   }
 
@@ -27,12 +30,12 @@ export class ShadowDom {
   }
 
   public insertShadowNode(node: Node, parentIndex: number, nextSiblingIndex: number, layout?: ILayoutState): IShadowDomNode {
-    let isDocument = (node === document);
+    let isDocument = (node === this.root);
     let index = this.setNodeIndex(node);
     let parent = (isDocument ? this.shadowDomRoot : this.getShadowNode(parentIndex)) as IShadowDomNode;
     let nextSibling = this.getShadowNode(nextSiblingIndex);
     let shadowNode = this.doc.createElement("div") as IShadowDomNode;
-    let ignore = (node === document) ? false : parent && parent.ignore;
+    let ignore = isDocument ? false : parent && parent.ignore;
     shadowNode.id = "" + index;
     shadowNode.node = node;
     shadowNode.layout = layout;
@@ -186,9 +189,9 @@ export class ShadowDom {
     let mirrors = true;
 
     assert(!!this.shadowDocument, "mirrorsRealDom", "shadowDocument is missing");
-    assert(this.shadowDocument.node === document, "mirrorsRealDom", "shadowDocument.node !== document");
+    assert(this.shadowDocument.node === this.root, "mirrorsRealDom", "shadowDocument.node !== root");
 
-    traverseNodeTree(document, (node: Node) => {
+    traverseNodeTree(this.root, (node: Node) => {
       domIndices.push(getNodeIndex(node));
     });
 
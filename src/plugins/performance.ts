@@ -1,10 +1,10 @@
 import { config } from "../config";
-import { addEvent, instrument } from "../core";
+import { addEvent, guard, instrument } from "../core";
 import { mapProperties } from "../utils";
 
 export default class PerformanceProfiler implements IPlugin {
   private dummyHyperlink = document.createElement("a");
-  private timeoutLength = 1000;
+  private timeoutLength: number;
   private lastInspectedEntryIndex: number;
   private clarityHostName: string;
   private logTimingTimeout: number;
@@ -30,14 +30,15 @@ export default class PerformanceProfiler implements IPlugin {
 
   public activate() {
     if (this.timing) {
-      this.logTimingTimeout = setTimeout(this.logTiming.bind(this), this.timeoutLength);
+      this.logTimingTimeout = setTimeout(guard(this, this.logTiming.bind(this)), this.timeoutLength);
     }
     if (this.getEntriesByType) {
-      this.logResourceTimingTimeout = setTimeout(this.logResourceTiming.bind(this), this.timeoutLength);
+      this.logResourceTimingTimeout = setTimeout(guard(this, this.logResourceTiming.bind(this)), this.timeoutLength);
     }
   }
 
-  public reset(): void {
+  public reset(options: IPerformanceOptions): void {
+    this.timeoutLength = options.timeoutLength;
     this.lastInspectedEntryIndex = -1;
     this.stateError = false;
     this.incompleteEntryIndices = [];
@@ -69,7 +70,7 @@ export default class PerformanceProfiler implements IPlugin {
       }, false);
       addEvent("NavigationTiming", { timing: formattedTiming });
     } else {
-      this.logTimingTimeout = setTimeout(this.logTiming.bind(this), this.timeoutLength);
+      this.logTimingTimeout = setTimeout(guard(this, this.logTiming.bind(this)), this.timeoutLength);
     }
   }
 
@@ -116,7 +117,7 @@ export default class PerformanceProfiler implements IPlugin {
       addEvent("ResourceTiming", { entries: entryInfos });
     }
 
-    this.logResourceTimingTimeout = setTimeout(this.logResourceTiming.bind(this), this.timeoutLength);
+    this.logResourceTimingTimeout = setTimeout(guard(this, this.logResourceTiming.bind(this)), this.timeoutLength);
   }
 
   private inspectEntry(entry, entryIndex): object {
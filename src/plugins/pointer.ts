@@ -1,31 +1,37 @@
-import { addEvent, bind } from "../core";
+import { addEvent, bind, getRoot } from "../core";
 import * as mouse from "./pointer/mouse";
 import * as touch from "./pointer/touch";
 
 export default class Pointer implements IPlugin {
+  // Target of a pointer event is the index that layout has given to the element
+  public static dependencies = ["layout"];
+
   private eventName = "Pointer";
-  private distanceThreshold = 20;
-  private timeThreshold = 500;
+  private distanceThreshold: number;
+  private timeThreshold: number;
   private lastMoveState: IPointerState;
   private lastMoveTime: number;
 
   public activate() {
-    bind(document, "mousedown", this.pointerHandler.bind(this, mouse));
-    bind(document, "mouseup", this.pointerHandler.bind(this, mouse));
-    bind(document, "mousemove", this.pointerHandler.bind(this, mouse));
-    bind(document, "mousewheel", this.pointerHandler.bind(this, mouse));
-    bind(document, "click", this.pointerHandler.bind(this, mouse));
-    bind(document, "touchstart", this.pointerHandler.bind(this, touch));
-    bind(document, "touchend", this.pointerHandler.bind(this, touch));
-    bind(document, "touchmove", this.pointerHandler.bind(this, touch));
-    bind(document, "touchcancel", this.pointerHandler.bind(this, touch));
+    let root = getRoot();
+    bind(root, "mousedown", this.pointerHandler.bind(this, mouse), this);
+    bind(root, "mouseup", this.pointerHandler.bind(this, mouse), this);
+    bind(root, "mousemove", this.pointerHandler.bind(this, mouse), this);
+    bind(root, "mousewheel", this.pointerHandler.bind(this, mouse), this);
+    bind(root, "click", this.pointerHandler.bind(this, mouse), this);
+    bind(root, "touchstart", this.pointerHandler.bind(this, touch), this);
+    bind(root, "touchend", this.pointerHandler.bind(this, touch), this);
+    bind(root, "touchmove", this.pointerHandler.bind(this, touch), this);
+    bind(root, "touchcancel", this.pointerHandler.bind(this, touch), this);
   }
 
   public teardown(): void {
     // Nothing to teardown
   }
 
-  public reset(): void {
+  public reset(options: IPointerOptions): void {
+    this.distanceThreshold = options.distanceThreshold;
+    this.timeThreshold = options.timeThreshold;
     this.lastMoveState = null;
     this.lastMoveTime = 0;
   }
@@ -2,26 +2,32 @@ import { addEvent, bind } from "../core";
 
 export default class Viewport implements IPlugin {
   private eventName = "Viewport";
-  private distanceThreshold = 20;
+  private distanceThreshold: number;
   private lastViewportState: IViewportState;
 
   public activate() {
     this.processState(this.getViewport("discover"));
-    bind(window, "scroll", this.viewportHandler.bind(this));
-    bind(window, "resize", this.viewportHandler.bind(this));
-    bind(window, "pageshow", this.viewportHandler.bind(this));
-    bind(window, "pagehide", this.viewportHandler.bind(this));
-    bind(document, "visibilitychange", this.viewportHandler.bind(this));
+    bind(window, "scroll", this.viewportHandler.bind(this), this);
+    bind(window, "resize", this.viewportHandler.bind(this), this);
+    bind(window, "pageshow", this.viewportHandler.bind(this), this);
+    bind(window, "pagehide", this.viewportHandler.bind(this), this);
+    bind(document, "visibilitychange", this.viewportHandler.bind(this), this);
   }
 
   public teardown() {
     // Nothing to teardown
   }
 
-  public reset(): void {
+  public reset(options: IViewportOptions): void {
+    this.distanceThreshold = options.distanceThreshold;
     this.lastViewportState = null;
   }
 
+  // Viewport could have changed in any way during the pause, so its current state is recorded unconditionally
+  public resume(): void {
+    this.processState(this.getViewport("resume"));
+  }
+
   private viewportHandler(evt: Event) {
     let viewportState = this.getViewport(evt.type);
     this.processState(viewportState);
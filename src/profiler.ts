@@ -0,0 +1,88 @@
+// Profiler measures the time that Clarity spends on the main thread, split by subsystem: the calls into each plugin,
+// the heavy parts of layout, serialization of events and compression of payloads. Subsystems nest, e.g. the calls into
+// a plugin include the serialization of the events it records, so the overall time is counted from the outermost calls only.
+// Subsystems are grouped by the part of their name before the first dot, e.g. layout and layout.mutations are both
+// counted towards the layout plugin, once for the calls that nest within each other.
+export function createProfilerState(): IProfilerState {
+  return {
+    usage: {},
+    groupTime: {},
+    stack: [],
+    totalTime: 0,
+    maxTime: 0,
+    start: now()
+  };
+}
+
+export function measure<T>(state: IProfilerState, subsystem: string, fn: () => T): T {
+  let group = getGroup(subsystem);
+  let nested = state.stack.some((outer: string) => getGroup(outer) === group);
+  let start = now();
+  state.stack.push(subsystem);
+  try {
+    return fn();
+  } finally {
+    let duration = now() - start;
+    let usage = state.usage[subsystem] || { totalTime: 0, maxTime: 0, count: 0 };
+    usage.totalTime += duration;
+    usage.maxTime = Math.max(usage.maxTime, duration);
+    usage.count++;
+    state.usage[subsystem] = usage;
+    state.stack.pop();
+    if (!nested) {
+      state.groupTime[group] = (state.groupTime[group] || 0) + duration;
+    }
+    if (state.stack.length === 0) {
+      state.totalTime += duration;
+      state.maxTime = Math.max(state.maxTime, duration);
+    }
+  }
+}
+
+// Returns the profile since the previous call, or null if nothing was measured, and starts a new one
+export function takeProfile(state: IProfilerState): IProfile {
+  let time = now();
+  let profile: IProfile = {
+    duration: round(time - state.start),
+    totalTime: round(state.totalTime),
+    maxTime: round(state.maxTime),
+    subsystems: {},
+    groups: {}
+  };
+  for (let subsystem in state.usage) {
+    if (state.usage.hasOwnProperty(subsystem)) {
+      let usage = state.usage[subsystem];
+      profile.subsystems[subsystem] = { totalTime: round(usage.totalTime), maxTime: round(usage.maxTime), count: usage.count };
+    }
+  }
+
+  for (let group in state.groupTime) {
+    if (state.groupTime.hasOwnProperty(group)) {
+      profile.groups[group] = round(state.groupTime[group]);
+    }
+  }
+
+  let measured = Object.keys(state.usage).length > 0;
+  state.usage = {};
+  state.groupTime = {};
+  state.totalTime = 0;
+  state.maxTime = 0;
+  state.start = time;
+  return measured ? profile : null;
+}
+
+export function getPluginTime(profile: IProfile, plugin: string): number {
+  return profile.groups.hasOwnProperty(plugin) ? profile.groups[plugin] : 0;
+}
+
+function getGroup(subsystem: string): string {
+  return subsystem.split(".")[0];
+}
+
+function now(): number {
+  return window.performance && performance.now ? performance.now() : new Date().getTime();
+}
+
+function round(time: number): number {
+  return Math.round(time * 100) / 100;
+}
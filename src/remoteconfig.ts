@@ -0,0 +1,115 @@
+// Remote config lets the site owner turn off or reconfigure recorders that are already deployed, without redeploying
+// the page. Document is requested on every start, and the last valid copy of each document is kept in localStorage,
+// so that recorders keep following it while the endpoint fails or responds too slowly.
+const StorageKey = "clarity-remote-config";
+const UploadResponseProperty = "remoteConfig";
+
+// Request has to finish within the timeout, after which the response is ignored even if it arrives later
+export function requestRemoteConfig(url: string, timeout: number, callback: RemoteConfigCallback) {
+  let completed = false;
+  let complete = (error: string, remoteConfig?: IRemoteConfig) => {
+    if (!completed) {
+      completed = true;
+      clearTimeout(requestTimeout);
+      callback(error, remoteConfig);
+    }
+  };
+
+  let xhr = new XMLHttpRequest();
+  let requestTimeout = setTimeout(() => {
+    complete("Request timed out");
+    xhr.abort();
+  }, timeout);
+  xhr.open("GET", url);
+  xhr.onreadystatechange = () => {
+    if (xhr.readyState === XMLHttpRequest.DONE) {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        let remoteConfig = parseJson(xhr.responseText);
+        let error = remoteConfig === undefined ? "Document isn't valid JSON" : getRemoteConfigError(remoteConfig);
+        if (!error) {
+          writeRemoteConfig(url, remoteConfig);
+        }
+        complete(error, error ? null : remoteConfig);
+      } else {
+        complete(`Request failed with status ${xhr.status}`);
+      }
+    }
+  };
+  xhr.send();
+}
+
+// Upload endpoint can deliver a newer version of the document under the remoteConfig property of its response.
+// Responses that aren't JSON, or don't carry the document, are left alone, since they can carry something else.
+export function getUploadedRemoteConfig(response: string): any {
+  let body = parseJson(response);
+  return body && typeof body === "object" && body.hasOwnProperty(UploadResponseProperty) ? body[UploadResponseProperty] : undefined;
+}
+
+// Returns the reason, why the document can't be applied, or null if it's valid
+export function getRemoteConfigError(remoteConfig: any): string {
+  if (!remoteConfig || typeof remoteConfig !== "object" || Array.isArray(remoteConfig)) {
+    return "Document has to be an object";
+  }
+
+  let sampleRate = remoteConfig.sampleRate;
+  let plugins = remoteConfig.plugins;
+  for (let setting of ["disabled", "showText", "showImages"]) {
+    if (remoteConfig.hasOwnProperty(setting) && typeof remoteConfig[setting] !== "boolean") {
+      return `${setting} has to be a boolean`;
+    }
+  }
+  if (remoteConfig.hasOwnProperty("sampleRate") && !(typeof sampleRate === "number" && sampleRate >= 0 && sampleRate <= 1)) {
+    return "sampleRate has to be a number between 0 and 1";
+  }
+  if (remoteConfig.hasOwnProperty("plugins")
+    && !(Array.isArray(plugins) && plugins.every((plugin: any) => typeof plugin === "string"))) {
+    return "plugins has to be a list of plugin names";
+  }
+  return null;
+}
+
+// Settings of the document that apply to the recorder's config
+export function getRemoteConfigChanges(remoteConfig: IRemoteConfig): IConfig {
+  let changes: IConfig = {};
+  for (let setting of ["sampleRate", "showText", "showImages", "plugins"]) {
+    if (remoteConfig.hasOwnProperty(setting)) {
+      changes[setting] = remoteConfig[setting];
+    }
+  }
+  return changes;
+}
+
+// Storage is shared by all pages on the origin, which can be corrupted or changed by someone else,
+// so the copy is checked again before it's used
+export function readRemoteConfig(url: string): IRemoteConfig {
+  let remoteConfig = readStoredConfigs()[url];
+  return getRemoteConfigError(remoteConfig) ? null : remoteConfig;
+}
+
+export function writeRemoteConfig(url: string, remoteConfig: IRemoteConfig) {
+  let storedConfigs = readStoredConfigs();
+  storedConfigs[url] = remoteConfig;
+  try {
+    localStorage.setItem(StorageKey, JSON.stringify(storedConfigs));
+  } catch (e) {
+    // Ignore
+  }
+}
+
+function readStoredConfigs(): { [url: string]: IRemoteConfig } {
+  // Anything other than an object of configs, including the text that isn't JSON, is read as no stored configs
+  try {
+    let storedConfigs = JSON.parse(localStorage.getItem(StorageKey));
+    return storedConfigs && typeof storedConfigs === "object" ? storedConfigs : {};
+  } catch (e) {
+    return {};
+  }
+}
+
+function parseJson(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    return undefined;
+  }
+}
@@ -0,0 +1,101 @@
+// Published schema of the compact event format. Positions of event types and fields are part of the format,
+// so existing entries are never reordered or removed: any such change requires a new version.
+// Decoder keeps every published version, so that payloads recorded by older scripts can still be decoded.
+// Version 1 is still unpublished, so it's extended in place until the first release that uploads it.
+export const Schema: IEventSchema = {
+  version: 1,
+  events: [
+    {
+      type: "Layout",
+      fields: ["index", "action", "source", "parent", "previous", "next", "tag", "mutationSequence",
+               "attributes", "layout", "content"],
+      defaults: { action: Action.Insert, source: Source.Discover, parent: null, previous: null, next: null },
+      nested: { layout: ["x", "y", "width", "height", "scrollX", "scrollY"] }
+    },
+    {
+      type: "Pointer",
+      fields: ["index", "event", "pointer", "x", "y", "width", "height", "pressure", "tiltX", "tiltY", "target", "buttons"],
+      defaults: { index: 1, pointer: "mouse", width: 1, height: 1, pressure: 1, tiltX: 0, tiltY: 0, target: null, buttons: 0 }
+    },
+    {
+      type: "Viewport",
+      fields: ["viewport", "document", "dpi", "visibility", "event"],
+      defaults: { dpi: 1, visibility: "visible" },
+      nested: { viewport: ["x", "y", "width", "height"], document: ["width", "height"] }
+    }
+  ]
+};
+
+let typeIndices: { [type: string]: number } = {};
+for (let i = 0; i < Schema.events.length; i++) {
+  typeIndices[Schema.events[i].type] = i;
+}
+
+// Events are still uploaded when they don't fit the schema, just with their state object as is
+export function encodeEvent(evt: IEvent): CompactEvent {
+  let values = typeIndices.hasOwnProperty(evt.type) ? encodeState(evt.state, Schema.events[typeIndices[evt.type]]) : null;
+  return values ? [evt.id, evt.time, typeIndices[evt.type]].concat(values) : [evt.id, evt.time, evt.type, evt.state];
+}
+
+function encodeState(state: any, typeSchema: IEventTypeSchema): any[] {
+  if (!state || typeof state !== "object") {
+    return null;
+  }
+
+  // Decoder wouldn't know about the fields that aren't in the schema
+  for (let key in state) {
+    if (state.hasOwnProperty(key) && typeSchema.fields.indexOf(key) < 0) {
+      return null;
+    }
+  }
+
+  let values = [];
+  for (let field of typeSchema.fields) {
+    let value = encodeValue(state[field], field, typeSchema);
+    if (value === undefined) {
+      return null;
+    }
+    values.push(value);
+  }
+
+  // Trailing fields that are left out don't need placeholders
+  while (values.length > 0 && values[values.length - 1] === null) {
+    values.pop();
+  }
+  return values;
+}
+
+// Null marks the value that is left out. Decoder restores its default or, if field has no default, leaves it out too,
+// so a value that it couldn't restore exactly makes this return undefined.
+function encodeValue(value: any, field: string, typeSchema: IEventTypeSchema): any {
+  let defaults = typeSchema.defaults || {};
+  let hasDefault = defaults.hasOwnProperty(field);
+  if (value === undefined) {
+    return hasDefault ? undefined : null;
+  }
+  if (hasDefault && value === defaults[field]) {
+    return null;
+  }
+  if (value === null) {
+    return undefined;
+  }
+
+  let nestedFields = typeSchema.nested && typeSchema.nested[field];
+  return nestedFields ? encodeNested(value, nestedFields) : value;
+}
+
+// Trailing nested fields, like the scroll position of a layout, can be left out, as long as all fields before them are set
+function encodeNested(value: any, nestedFields: string[]): any[] {
+  if (typeof value !== "object") {
+    return undefined;
+  }
+
+  let values = [];
+  for (let field of nestedFields) {
+    if (value[field] === undefined) {
+      break;
+    }
+    values.push(value[field]);
+  }
+  return Object.keys(value).length === values.length ? values : undefined;
+}
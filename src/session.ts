@@ -0,0 +1,60 @@
+import { config } from "./config";
+import { guid } from "./utils";
+
+// Session groups page loads of a single visit. Its state is kept in localStorage, so that it's shared
+// by all tabs on the same origin and activity in any of them keeps the session alive.
+// Session ends after a period of inactivity or once it exceeds the maximum duration, whichever comes first.
+const StorageKey = "clarity-session";
+
+// Fallback for the browsers, where localStorage is disabled, so that session is at least kept within the page
+let localSession: ISessionState = null;
+let storageFailed = false;
+
+// Page joins the session that is current at the moment, starting a new one if the previous session has expired.
+// This is also how the session rolls over while the page stays open: page joins the new session as its next page.
+// Every recorder keeps track of its own membership, which starts out as null on every activation.
+export function refreshSession(membership: ISession): ISession {
+  let now = new Date().getTime();
+  let session = readSession();
+  if (!session || now - session.lastActive > config.sessionTimeout || now - session.start > config.sessionMaxDuration) {
+    session = {
+      id: guid(),
+      start: now,
+      lastActive: now,
+      pages: 0
+    };
+  }
+
+  if (!membership || session.id !== membership.sessionId) {
+    session.pages++;
+    membership = {
+      sessionId: session.id,
+      pageNumber: session.pages
+    };
+  }
+  session.lastActive = now;
+  writeSession(session);
+
+  return membership;
+}
+
+// Storage can also read nothing while it's enabled, like in Safari's private mode, where every write throws,
+// so the session that the page has written last is used whenever storage doesn't have one after a failed write
+function readSession(): ISessionState {
+  // Session that doesn't parse is replaced by the one that the page has written last
+  try {
+    return JSON.parse(localStorage.getItem(StorageKey)) || (storageFailed ? localSession : null);
+  } catch (e) {
+    return localSession;
+  }
+}
+
+function writeSession(session: ISessionState) {
+  localSession = session;
+  try {
+    localStorage.setItem(StorageKey, JSON.stringify(session));
+    storageFailed = false;
+  } catch (e) {
+    storageFailed = true;
+  }
+}
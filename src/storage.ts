@@ -0,0 +1,171 @@
+import { config } from "./config";
+
+// Undelivered payloads are kept on the device between page loads, so that the next page load
+// on the same origin can replay them. IndexedDB is used when it's available and localStorage otherwise.
+// All entries are stored under a single key, which allows enforcing size and age limits on every update.
+const StorageKey = "clarity-payloads";
+const DatabaseName = "clarity";
+const DatabaseStoreName = "payloads";
+
+type StoredPayloadsModifier = (payloads: IDroppedPayloadInfo[]) => IDroppedPayloadInfo[];
+
+// Owner is the impression of the page that keeps retrying the payload. While that page stays open, it refreshes
+// the heartbeat of its payloads, so that pages loading on the same origin don't deliver them for the second time.
+export function storePayload(payloadInfo: IDroppedPayloadInfo, owner?: string) {
+  let impressionId = payloadInfo.xhrErrorState.impressionId;
+  let sequenceNumber = payloadInfo.xhrErrorState.sequenceNumber;
+  payloadInfo.owner = owner || null;
+  payloadInfo.heartbeat = new Date().getTime();
+  update((payloads: IDroppedPayloadInfo[]) => {
+    payloads = payloads.filter((stored: IDroppedPayloadInfo) => !matches(stored, impressionId, sequenceNumber));
+    payloads.push(payloadInfo);
+    return payloads;
+  });
+}
+
+export function removeStoredPayload(impressionId: string, sequenceNumber: number) {
+  update((payloads: IDroppedPayloadInfo[]) => {
+    return payloads.filter((stored: IDroppedPayloadInfo) => !matches(stored, impressionId, sequenceNumber));
+  });
+}
+
+export function removeImpressionPayloads(impressionIds: string[]) {
+  update((payloads: IDroppedPayloadInfo[]) => {
+    return payloads.filter((stored: IDroppedPayloadInfo) => impressionIds.indexOf(stored.xhrErrorState.impressionId) < 0);
+  });
+}
+
+export function refreshStoredPayloads(owner: string) {
+  let now = new Date().getTime();
+  update((payloads: IDroppedPayloadInfo[]) => {
+    for (let payloadInfo of payloads.filter((stored: IDroppedPayloadInfo) => stored.owner === owner)) {
+      payloadInfo.heartbeat = now;
+    }
+    return payloads;
+  });
+}
+
+// Page that is closing leaves its payloads to the next page load right away, instead of letting their heartbeat expire
+export function releaseStoredPayloads(owner: string) {
+  update((payloads: IDroppedPayloadInfo[]) => {
+    for (let payloadInfo of payloads.filter((stored: IDroppedPayloadInfo) => stored.owner === owner)) {
+      payloadInfo.owner = null;
+    }
+    return payloads;
+  });
+}
+
+// Removes the payloads, whose owner is gone, from the storage before handing them over, so that pages
+// loading at the same time on the same origin don't replay the same payloads. Payloads stored by the versions
+// that didn't track their owner are claimed right away.
+export function claimStoredPayloads(callback: (payloads: IDroppedPayloadInfo[]) => void) {
+  let claimed: IDroppedPayloadInfo[] = [];
+  let claim = (payloads: IDroppedPayloadInfo[]) => {
+    claimed = payloads.filter(isOrphaned);
+    return payloads.filter((payloadInfo: IDroppedPayloadInfo) => !isOrphaned(payloadInfo));
+  };
+  update(claim, () => { callback(claimed); });
+}
+
+// Owner refreshes the heartbeat every retryMaxDelay, so missing two heartbeats in a row means that its page is gone
+function isOrphaned(payloadInfo: IDroppedPayloadInfo): boolean {
+  return !payloadInfo.owner || !(new Date().getTime() - payloadInfo.heartbeat <= config.retryMaxDelay * 2);
+}
+
+function update(modify: StoredPayloadsModifier, onComplete?: () => void) {
+  onComplete = onComplete || noop;
+  if (!(config.storageLimit > 0)) {
+    onComplete();
+    return;
+  }
+
+  if (window.indexedDB) {
+    updateDatabase(modify, onComplete);
+  } else {
+    updateLocalStorage(modify, onComplete);
+  }
+}
+
+function updateDatabase(modify: StoredPayloadsModifier, onComplete: () => void) {
+  let request: IDBOpenDBRequest;
+
+  // Some browsers throw on access to IndexedDB in private mode instead of failing the request
+  try {
+    request = indexedDB.open(DatabaseName);
+  } catch (e) {
+    updateLocalStorage(modify, onComplete);
+    return;
+  }
+
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(DatabaseStoreName);
+  };
+  request.onerror = (evt: Event) => {
+    evt.preventDefault();
+    updateLocalStorage(modify, onComplete);
+  };
+  request.onsuccess = () => {
+    let database: IDBDatabase = request.result;
+    let transaction = database.transaction(DatabaseStoreName, "readwrite");
+    let store = transaction.objectStore(DatabaseStoreName);
+    let getRequest = store.get(StorageKey);
+    getRequest.onsuccess = () => {
+      store.put(enforceLimits(modify(getRequest.result || [])), StorageKey);
+    };
+    transaction.oncomplete = () => {
+      database.close();
+      onComplete();
+    };
+    transaction.onabort = () => {
+      database.close();
+    };
+  };
+}
+
+function updateLocalStorage(modify: StoredPayloadsModifier, onComplete: () => void) {
+  let payloads: IDroppedPayloadInfo[] = [];
+
+  // Payloads that don't parse are dropped, so that the write below replaces them rather than failing on every update
+  try {
+    payloads = JSON.parse(localStorage.getItem(StorageKey)) || [];
+  } catch (e) {
+    payloads = [];
+  }
+
+  payloads = enforceLimits(modify(payloads));
+  try {
+    if (payloads.length > 0) {
+      localStorage.setItem(StorageKey, JSON.stringify(payloads));
+    } else {
+      localStorage.removeItem(StorageKey);
+    }
+  } catch (e) {
+    // Ignore
+  }
+  onComplete();
+}
+
+// Drop payloads that are too old to be useful and then, if storage is still
+// over the size limit, drop the oldest payloads to make room for the newer ones
+function enforceLimits(payloads: IDroppedPayloadInfo[]): IDroppedPayloadInfo[] {
+  let now = new Date().getTime();
+  let bytes = 0;
+  let kept: IDroppedPayloadInfo[] = [];
+  for (let i = payloads.length - 1; i >= 0; i--) {
+    let payloadInfo = payloads[i];
+    if (now - payloadInfo.time <= config.storageMaxAge && bytes + payloadInfo.payload.length <= config.storageLimit) {
+      bytes += payloadInfo.payload.length;
+      kept.unshift(payloadInfo);
+    }
+  }
+  return kept;
+}
+
+function matches(payloadInfo: IDroppedPayloadInfo, impressionId: string, sequenceNumber: number) {
+  return payloadInfo.xhrErrorState.impressionId === impressionId
+    && payloadInfo.xhrErrorState.sequenceNumber === sequenceNumber;
+}
+
+function noop() {
+  return;
+}
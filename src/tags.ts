@@ -0,0 +1,94 @@
+import { addEvent, forEachContext, instrument } from "./core";
+import { mapProperties } from "./utils";
+
+// User id and tags belong to the page rather than to a single activation, so they survive stop and start
+// and can be set before Clarity starts. Every envelope carries their latest values, so they have to stay small.
+const UserIdLimit = 255;
+const TagKeyLimit = 64;
+const TagValueLimit = 255;
+const TagCountLimit = 20;
+const TagEventName = "Tag";
+const IdentifyEventName = "Identify";
+
+let userId: string = null;
+let tags: ITags = {};
+let tagCount = 0;
+
+// Traits are kept as regular tags, so they can be changed later through setTag as well
+export function identifyUser(id: string, traits?: ITraits) {
+  if (!validString(id, UserIdLimit)) {
+    reject(null, `User id must be a non-empty string of up to ${UserIdLimit} characters`);
+    return;
+  }
+
+  if (id !== userId) {
+    userId = id;
+    record(IdentifyEventName, { userId } as IIdentifyEventState);
+  }
+  mapProperties(traits, updateTag, true);
+}
+
+// Setting a tag to null or undefined removes it
+export function updateTag(key: string, value: TagValue) {
+  if (!validString(key, TagKeyLimit)) {
+    reject(key, `Tag key must be a non-empty string of up to ${TagKeyLimit} characters`);
+    return;
+  }
+
+  let tagValue = (value === null || typeof value === "undefined") ? null : String(value);
+  let valueType = typeof value;
+  if (tagValue !== null && ((valueType !== "string" && valueType !== "number" && valueType !== "boolean")
+                            || tagValue.length > TagValueLimit)) {
+    reject(key, `Tag value must be a string, number or boolean of up to ${TagValueLimit} characters`);
+    return;
+  }
+
+  let exists = tags.hasOwnProperty(key);
+  if (tagValue !== null && !exists && tagCount >= TagCountLimit) {
+    reject(key, `Number of tags can't exceed ${TagCountLimit}`);
+    return;
+  }
+
+  if ((exists ? tags[key] : null) !== tagValue) {
+    if (tagValue === null) {
+      delete tags[key];
+      tagCount--;
+    } else {
+      tags[key] = tagValue;
+      tagCount += exists ? 0 : 1;
+    }
+    record(TagEventName, { key, value: tagValue } as ITagEventState);
+  }
+}
+
+export function getUserId(): string {
+  return userId;
+}
+
+// Envelope gets a copy, so that it doesn't change after it has been created
+export function getTags(): ITags {
+  return tagCount > 0 ? mapProperties(tags, null, true) as ITags : null;
+}
+
+function validString(value: string, limit: number): boolean {
+  return typeof value === "string" && value.length > 0 && value.length <= limit;
+}
+
+// Changes are recorded by every active recorder, while the ones made before Clarity starts
+// don't need to be on the timeline, since the very first envelope carries them
+function record(type: string, eventState: any) {
+  forEachContext(() => {
+    addEvent(type, eventState);
+  });
+}
+
+function reject(key: string, reason: string) {
+  let tagRejectedEventState: ITagRejectedEventState = {
+    type: Instrumentation.TagRejected,
+    key,
+    reason
+  };
+  forEachContext(() => {
+    instrument(tagRejectedEventState);
+  });
+}
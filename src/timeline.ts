@@ -0,0 +1,55 @@
+// Sequence numbers come from the network, so the gaps between them are listed only up to a margin over the number
+// of received payloads, rather than walking all the way up to whatever sequence number an upload claims
+const MissingSequenceNumberMargin = 100;
+
+// Payloads of an impression reach the server separately and not necessarily in order: retries deliver them late,
+// and a payload can be delivered twice, when the server has received it, but the response didn't reach the browser.
+// Reassembly puts them back together into one timeline per impression, with events in the order in which they were recorded.
+export function reassemble(payloads: IPayload[]): IImpressionTimeline[] {
+  let timelines: IImpressionTimeline[] = [];
+  let timelinesById: { [impressionId: string]: IImpressionTimeline } = {};
+  let received: { [impressionId: string]: { [sequenceNumber: number]: IPayload } } = {};
+  for (let payload of payloads) {
+    let impressionId = payload.envelope.impressionId;
+    if (!received.hasOwnProperty(impressionId)) {
+      received[impressionId] = {};
+      timelinesById[impressionId] = {
+        impressionId,
+        envelopes: [],
+        events: [],
+        missingSequenceNumbers: [],
+        duplicateCount: 0,
+        ended: false
+      };
+      timelines.push(timelinesById[impressionId]);
+    }
+
+    let sequenceNumber = payload.envelope.sequenceNumber;
+    if (received[impressionId].hasOwnProperty(sequenceNumber)) {
+      timelinesById[impressionId].duplicateCount++;
+    } else {
+      received[impressionId][sequenceNumber] = payload;
+    }
+  }
+
+  for (let timeline of timelines) {
+    let impressionPayloads = received[timeline.impressionId];
+    let sequenceNumbers = Object.keys(impressionPayloads).map(Number).sort((a: number, b: number) => a - b);
+    let missingLimit = sequenceNumbers.length + MissingSequenceNumberMargin;
+    let nextSequenceNumber = 0;
+    for (let sequenceNumber of sequenceNumbers) {
+      for (; nextSequenceNumber < sequenceNumber && timeline.missingSequenceNumbers.length < missingLimit; nextSequenceNumber++) {
+        timeline.missingSequenceNumbers.push(nextSequenceNumber);
+      }
+      let payload = impressionPayloads[sequenceNumber];
+      timeline.envelopes.push(payload.envelope);
+      timeline.events = timeline.events.concat(payload.events);
+      timeline.ended = timeline.ended || !!payload.envelope.manifest;
+      nextSequenceNumber = sequenceNumber + 1;
+    }
+
+    // Priority events are uploaded ahead of the batch that holds the events recorded before them
+    timeline.events.sort((a: IEvent, b: IEvent) => a.id - b.id);
+  }
+  return timelines;
+}
@@ -2,7 +2,8 @@
 
 // Excluding 3rd party code from tslint
 /* tslint:disable */
-export default function(compressed: string) {
+
+export default function uncompress(compressed: string) {
   // use decompressFromBase64 to parallel the compress function
   var keyStrBase64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/=";
   if (compressed == null) return "";
@@ -183,3 +184,28 @@ export default function(compressed: string) {
 
   }
 }
+
+// Decoders for every codec that Clarity can encode payloads with, picked by the codec name that the upload carries.
+// Gzip relies on the stream APIs that both browsers and Node 18+ provide, so the decoders work on either side.
+export function decode(payload: string, codec: string, callback: (decoded: string) => void) {
+  switch (codec) {
+    case "none":
+      callback(payload);
+      break;
+    case "lz-base64":
+      callback(uncompress(payload));
+      break;
+    case "gzip-base64":
+      let binary = atob(payload);
+      let bytes = new Uint8Array(binary.length);
+      for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+      }
+      let stream = (new Blob([bytes]) as any).stream().pipeThrough(new DecompressionStream("gzip"));
+      new Response(stream).text().then(callback, () => { callback(null); });
+      break;
+    default:
+      callback(null);
+      break;
+  }
+}
@@ -19,25 +19,34 @@ export function guid() {
 }
 // tslint:enable
 
-export function setCookie(cookieName: string, value: string, expDays?: number): void {
-  let expDate = null;
-  if (expDays) {
-    expDate = new Date();
-    expDate.setDate(expDate.getDate() + expDays);
+export function setCookie(cookieName: string, value: string, attributes?: ICookieAttributes): void {
+  attributes = attributes || {};
+  let cookie = `${cookieName}=${value};path=/`;
+  if (attributes.expiryDays) {
+    let expDate = new Date();
+    expDate.setDate(expDate.getDate() + attributes.expiryDays);
+    cookie += `;expires=${expDate.toUTCString()}`;
   }
-  let expires = expDate ? "expires=" + expDate.toUTCString() : "";
-  let cookieValue = value + ";" + expires + ";path=/";
-  document.cookie = cookieName + "=" + cookieValue;
+  if (attributes.domain) {
+    cookie += `;domain=${attributes.domain}`;
+  }
+  if (attributes.sameSite) {
+    cookie += `;samesite=${attributes.sameSite}`;
+  }
+  if (attributes.secure) {
+    cookie += ";secure";
+  }
+  document.cookie = cookie;
 }
 
+// Cookie names are compared in full, so that cookies whose names merely contain the requested name don't match
 export function getCookie(cookieName: string): string {
   let arrayOfCookies: string[] = document.cookie.split(";");
-  if (arrayOfCookies) {
-    for (let i = 0; i < arrayOfCookies.length; i++) {
-      let cookiePair: string[] = arrayOfCookies[i].split("=");
-      if (cookiePair && cookiePair.length > 1 && cookiePair[0].indexOf(cookieName) >= 0) {
-        return cookiePair[1];
-      }
+  for (let i = 0; i < arrayOfCookies.length; i++) {
+    let cookie = arrayOfCookies[i].replace(/^\s+/, "");
+    let separatorIndex = cookie.indexOf("=");
+    if (separatorIndex > 0 && cookie.substring(0, separatorIndex) === cookieName) {
+      return cookie.substring(separatorIndex + 1);
     }
   }
   return null;
@@ -0,0 +1,205 @@
+// Validation of the payloads that the server receives against the shape that clarity.d.ts describes.
+// Payload comes from the network, so every field is checked, and all problems are reported at once,
+// each of them as a path to the field along with what was expected there.
+interface IFieldRule {
+  validate: (value: any) => boolean;
+  expected: string;
+}
+
+// Sequence number grows by one with every upload, which keeps even a day long impression far below this limit
+const MaxSequenceNumber = 1000000;
+
+const envelopeFields: { [field: string]: IFieldRule } = {
+  clarityId: { validate: isString, expected: "a string" },
+  impressionId: { validate: isString, expected: "a string" },
+  url: { validate: isString, expected: "a string" },
+  version: { validate: isString, expected: "a string" },
+  time: { validate: isNumber, expected: "a number" },
+  sequenceNumber: {
+    validate: (value: any) => isIndex(value) && value <= MaxSequenceNumber,
+    expected: `an integer from 0 to ${MaxSequenceNumber}`
+  }
+};
+
+// Session, identity and event ranges are in every envelope since version 0.2.0, while older versions didn't have them
+const VersionedFieldsSince = "0.2.0";
+const versionedEnvelopeFields: { [field: string]: IFieldRule } = {
+  identityMode: { validate: (value: any) => value === null || isString(value), expected: "a string or null" },
+  sessionId: { validate: isString, expected: "a string" },
+  pageNumber: { validate: isNumber, expected: "a number" },
+  firstEventId: { validate: (value: any) => value === null || isIndex(value), expected: "a non-negative integer or null" },
+  lastEventId: { validate: (value: any) => value === null || isIndex(value), expected: "a non-negative integer or null" },
+  eventCount: { validate: isIndex, expected: "a non-negative integer" },
+  emittedEventCount: { validate: isIndex, expected: "a non-negative integer" },
+  deliveredEventCount: { validate: isIndex, expected: "a non-negative integer" }
+};
+
+const optionalEnvelopeFields: { [field: string]: IFieldRule } = {
+  userId: { validate: isString, expected: "a string" },
+  tags: { validate: isTags, expected: "an object with string values" },
+  pauses: { validate: isPauses, expected: "an array of intervals" },
+  schema: { validate: isIndex, expected: "a non-negative integer" },
+  manifest: { validate: isManifest, expected: "a manifest of sequence number ranges" }
+};
+
+// State of the event types that the server reads is checked as well, while the state of other types can be anything
+const stateFields: { [type: string]: { [field: string]: IFieldRule } } = {
+  Layout: {
+    index: { validate: isIndex, expected: "a non-negative integer" },
+    source: { validate: isIndex, expected: "a source" },
+    action: { validate: isIndex, expected: "an action" }
+  },
+  Pointer: {
+    event: { validate: isString, expected: "a string" },
+    pointer: { validate: isString, expected: "a string" },
+    x: { validate: (value: any) => value === null || isNumber(value), expected: "a number or null" },
+    y: { validate: (value: any) => value === null || isNumber(value), expected: "a number or null" },
+    target: { validate: (value: any) => value === null || isIndex(value), expected: "a non-negative integer or null" }
+  },
+  Viewport: {
+    viewport: { validate: isViewport, expected: "a rectangle" },
+    document: { validate: isDocumentSize, expected: "an object with width and height" }
+  },
+  Instrumentation: {
+    type: { validate: isIndex, expected: "an instrumentation type" }
+  }
+};
+
+const optionalStateFields: { [type: string]: { [field: string]: IFieldRule } } = {
+  Layout: {
+    layout: { validate: (value: any) => value === null || isLayoutRectangle(value), expected: "a rectangle or null" },
+    attributes: { validate: isObject, expected: "an object" }
+  }
+};
+
+// Returns the list of problems, which is empty for a valid payload. Events of compact payloads are checked
+// in their compact form, since the decoder can only be trusted with the arrays of the right shape.
+export function validatePayload(payload: any): string[] {
+  if (!isObject(payload)) {
+    return ["payload: expected an object"];
+  }
+
+  let errors: string[] = [];
+  let envelope = payload.envelope;
+  if (isObject(envelope)) {
+    let versioned = isString(envelope.version) && compareVersions(envelope.version, VersionedFieldsSince) >= 0;
+    validateFields(envelope, envelopeFields, false, "envelope", errors);
+    validateFields(envelope, versionedEnvelopeFields, !versioned, "envelope", errors);
+    validateFields(envelope, optionalEnvelopeFields, true, "envelope", errors);
+  } else {
+    errors.push("envelope: expected an object");
+  }
+
+  let compact = isObject(envelope) && isNumber(envelope.schema);
+  if (Array.isArray(payload.events)) {
+    for (let i = 0; i < payload.events.length; i++) {
+      let evt = payload.events[i];
+      if (compact ? !isCompactEvent(evt) : !isEvent(evt)) {
+        errors.push(`events[${i}]: expected ${compact ? "a compact event" : "an event"}`);
+      } else if (!compact && stateFields.hasOwnProperty(evt.type)) {
+        validateState(evt, `events[${i}].state`, errors);
+      }
+    }
+    if (isObject(envelope) && isNumber(envelope.eventCount) && envelope.eventCount !== payload.events.length) {
+      errors.push(`envelope.eventCount: expected the number of events, ${payload.events.length}`);
+    }
+  } else {
+    errors.push("events: expected an array");
+  }
+  return errors;
+}
+
+function validateFields(value: any, fields: { [field: string]: IFieldRule }, optional: boolean, path: string, errors: string[]) {
+  for (let field in fields) {
+    if (fields.hasOwnProperty(field)) {
+      let missing = !value.hasOwnProperty(field) || value[field] === undefined;
+      if (missing && !optional) {
+        errors.push(`${path}.${field}: missing`);
+      } else if (!missing && !fields[field].validate(value[field])) {
+        errors.push(`${path}.${field}: expected ${fields[field].expected}`);
+      }
+    }
+  }
+}
+
+function validateState(evt: any, path: string, errors: string[]) {
+  if (!isObject(evt.state)) {
+    errors.push(`${path}: expected an object`);
+    return;
+  }
+  validateFields(evt.state, stateFields[evt.type], false, path, errors);
+  if (optionalStateFields.hasOwnProperty(evt.type)) {
+    validateFields(evt.state, optionalStateFields[evt.type], true, path, errors);
+  }
+}
+
+function isEvent(value: any): boolean {
+  return isObject(value) && isIndex(value.id) && isNumber(value.time) && isString(value.type) && value.hasOwnProperty("state");
+}
+
+// Compact event is [id, time, type, ...fields], where type is either an index into the schema or a type name
+function isCompactEvent(value: any): boolean {
+  return Array.isArray(value) && value.length >= 3 && isIndex(value[0]) && isNumber(value[1])
+    && (isString(value[2]) || isIndex(value[2]));
+}
+
+function isViewport(value: any): boolean {
+  return isObject(value) && ["x", "y", "width", "height"].every((field: string) => isNumber(value[field]));
+}
+
+// Scroll position is only there for the elements that can scroll
+function isLayoutRectangle(value: any): boolean {
+  return isViewport(value) && ["scrollX", "scrollY"].every((field: string) => value[field] === undefined || isNumber(value[field]));
+}
+
+// Document size is null until the body is there
+function isDocumentSize(value: any): boolean {
+  return isObject(value) && [value.width, value.height].every((size: any) => size === null || isNumber(size));
+}
+
+function isPauses(value: any): boolean {
+  return Array.isArray(value) && value.every((interval: any) => isObject(interval) && isNumber(interval.start) && isNumber(interval.end));
+}
+
+function isTags(value: any): boolean {
+  return isObject(value) && Object.keys(value).every((key: string) => isString(value[key]));
+}
+
+function isManifest(value: any): boolean {
+  return isObject(value) && isRanges(value.delivered) && isRanges(value.pending) && isRanges(value.dropped);
+}
+
+function isRanges(value: any): boolean {
+  return Array.isArray(value) && value.every((range: any) => {
+    return Array.isArray(range) && range.length === 2 && isIndex(range[0]) && isIndex(range[1]) && range[0] <= range[1];
+  });
+}
+
+// Versions are compared by their numeric parts, so that "0.10.0" is newer than "0.9.0"
+function compareVersions(version: string, otherVersion: string): number {
+  let parts = version.split(".").map(Number);
+  let otherParts = otherVersion.split(".").map(Number);
+  for (let i = 0; i < Math.max(parts.length, otherParts.length); i++) {
+    let difference = (parts[i] || 0) - (otherParts[i] || 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+function isIndex(value: any): boolean {
+  return isNumber(value) && value >= 0 && Math.floor(value) === value;
+}
+
+function isString(value: any): boolean {
+  return typeof value === "string";
+}
+
+function isNumber(value: any): boolean {
+  return typeof value === "number" && isFinite(value);
+}
+
+function isObject(value: any): boolean {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
@@ -0,0 +1,247 @@
+import { DefaultCodec, encodePayload, getSyncCodec, gzipEncode, isBuiltInCodec } from "./codecs";
+import { createCompressor } from "./compress";
+import { getTimestamp } from "./core";
+
+// Compressing a full batch can take long enough on low-end devices to make the page feel unresponsive,
+// so payloads can be compressed and uploaded by a web worker instead. Worker is shared by all recorders on the page.
+// Jobs are processed in the order in which they were submitted, so payloads are still uploaded in sequence.
+let worker: Worker = null;
+let workerFailed = false;
+let jobs: ICompressionJob[] = [];
+let uploadingJobs: { [id: number]: ICompressionJob } = {};
+let jobCount = 0;
+let sliceTimeout: number = null;
+let asyncJob: ICompressionJob = null;
+
+// Worker is only used when asked for, while codecs that can only encode asynchronously always go through the queue
+export function compressPayload(payload: string, codec: ICodec, useWorker: boolean, uploadUrl: string,
+                                checksum: string, timeToYield: number, callback: CompressionCallback,
+                                measure: (compress: () => void) => void) {
+  let job: ICompressionJob = {
+    id: jobCount++,
+    payload,
+    codec,
+    uploadUrl,
+    checksum,
+    timeToYield,
+    callback,
+    measure
+  };
+  jobs.push(job);
+  if (useWorker && isBuiltInCodec(codec) && getWorker()) {
+    let request: ICompressionRequest = {
+      id: job.id,
+      payload,
+      codec: codec.name
+    };
+    worker.postMessage(request);
+  } else {
+    job.uploadUrl = null;
+    scheduleSlice();
+  }
+}
+
+// Page may be about to unload, so payloads that are still waiting to be compressed are finished right away,
+// with the default codec if theirs can't encode synchronously. Payloads that the worker has already started uploading
+// are left to it.
+export function flushCompression() {
+  clearTimeout(sliceTimeout);
+  sliceTimeout = null;
+  asyncJob = null;
+  let pendingJobs = jobs;
+  jobs = [];
+  for (let job of pendingJobs) {
+    let result: ICompressionResult = null;
+    job.measure(() => {
+      if (job.compressor) {
+        result = { compressed: job.compressor(null), codec: DefaultCodec };
+      } else {
+        encodePayload(job.payload, getSyncCodec(job.codec.name), (syncResult: ICompressionResult) => { result = syncResult; });
+      }
+    });
+    job.callback(result);
+  }
+}
+
+// Worker that has failed isn't loaded again, until it's reset
+export function resetWorker() {
+  if (worker) {
+    worker.terminate();
+  }
+  worker = null;
+  workerFailed = false;
+  uploadingJobs = {};
+}
+
+// Worker is loaded from a blob, which CSP can block either right away or with an error event later on
+function getWorker(): Worker {
+  if (!worker && !workerFailed) {
+    try {
+      let source = `(${compressionWorker.toString()})(${createCompressor.toString()}, ${gzipEncode.toString()});`;
+      let url = URL.createObjectURL(new Blob([source], { type: "application/javascript" }));
+      worker = new Worker(url);
+      worker.onmessage = onWorkerMessage;
+      worker.onerror = onWorkerError;
+    } catch (e) {
+      worker = null;
+      workerFailed = true;
+    }
+  }
+  return worker;
+}
+
+function onWorkerMessage(evt: MessageEvent) {
+  let response: ICompressionResponse = evt.data;
+  if (typeof response.compressed === "string") {
+    let job = takeJob(response.id);
+    let request: ICompressionRequest = {
+      id: response.id,
+      codec: response.codec,
+      uploadUrl: job ? job.uploadUrl : null,
+      checksum: job ? job.checksum : null
+    };
+    worker.postMessage(request);
+    if (job && job.uploadUrl) {
+      job.compressed = response.compressed;
+      job.codec = { name: response.codec };
+      uploadingJobs[job.id] = job;
+    } else if (job) {
+      job.callback({ compressed: response.compressed, codec: response.codec });
+    }
+  } else {
+    let job = uploadingJobs[response.id];
+    delete uploadingJobs[response.id];
+    if (job) {
+      job.callback({
+        compressed: job.compressed,
+        codec: job.codec.name,
+        status: response.status,
+        retryAfter: response.retryAfter,
+        response: response.response
+      });
+    }
+  }
+}
+
+// Jobs that the worker hasn't compressed yet are taken over by the main thread, while uploads that it has started
+// are failed back without a status, so that they enter the retry queue, since it's unknown whether they have completed
+function onWorkerError(evt: ErrorEvent) {
+  evt.preventDefault();
+  worker.terminate();
+  worker = null;
+  workerFailed = true;
+  for (let job of jobs) {
+    job.uploadUrl = null;
+  }
+  if (jobs.length > 0) {
+    scheduleSlice();
+  }
+
+  let failedJobs = uploadingJobs;
+  uploadingJobs = {};
+  for (let id in failedJobs) {
+    if (failedJobs.hasOwnProperty(id)) {
+      let job = failedJobs[id];
+      job.callback({ compressed: job.compressed, codec: job.codec.name, status: 0 });
+    }
+  }
+}
+
+function takeJob(id: number): ICompressionJob {
+  for (let i = 0; i < jobs.length; i++) {
+    if (jobs[i].id === id) {
+      return jobs.splice(i, 1)[0];
+    }
+  }
+  return null;
+}
+
+function scheduleSlice() {
+  if (sliceTimeout === null && asyncJob === null) {
+    sliceTimeout = setTimeout(compressSlice, 0);
+  }
+}
+
+// Fallback for the pages without workers: compression runs on the main thread, but the default codec
+// yields every timeToYield milliseconds, so that the page gets a chance to respond to the user.
+// Other codecs encode a payload at once, or asynchronously, in which case the queue waits for them.
+function compressSlice() {
+  sliceTimeout = null;
+  let job = jobs[0];
+  if (job && job.codec.name === DefaultCodec && isBuiltInCodec(job.codec)) {
+    let yieldTime = getTimestamp(true) + job.timeToYield;
+    let compressed: string = null;
+    job.measure(() => {
+      job.compressor = job.compressor || createCompressor(job.payload);
+      compressed = job.compressor(() => getTimestamp(true) > yieldTime);
+    });
+    if (compressed !== null) {
+      jobs.shift();
+      job.callback({ compressed, codec: DefaultCodec });
+    }
+  } else if (job) {
+    asyncJob = job;
+    encodePayload(job.payload, job.codec, (result: ICompressionResult) => {
+      if (asyncJob === job) {
+        asyncJob = null;
+        jobs.shift();
+        job.callback(result);
+        scheduleSlice();
+      }
+    });
+  }
+  if (jobs.length > 0) {
+    scheduleSlice();
+  }
+}
+
+// Runs inside the worker, where nothing but its own body and the encoders passed to it are available
+function compressionWorker(compressorFactory: (uncompressed: string) => (shouldYield: () => boolean) => string,
+                           gzipEncoder: (payload: string, callback: (encoded: string) => void) => void) {
+  let scope: any = self;
+  let compressed: { [id: number]: string } = {};
+  let respond = (id: number, encoded: string, codec: string) => {
+    compressed[id] = encoded;
+    scope.postMessage({ id, compressed: encoded, codec });
+  };
+  scope.onmessage = (evt: MessageEvent) => {
+    let request: ICompressionRequest = evt.data;
+    if (typeof request.payload === "string") {
+      let payload = request.payload;
+      if (request.codec === "none") {
+        respond(request.id, payload, request.codec);
+      } else if (request.codec === "gzip-base64") {
+        gzipEncoder(payload, (encoded: string) => {
+          if (typeof encoded === "string") {
+            respond(request.id, encoded, request.codec);
+          } else {
+            respond(request.id, compressorFactory(payload)(null), "lz-base64");
+          }
+        });
+      } else {
+        respond(request.id, compressorFactory(payload)(null), "lz-base64");
+      }
+    } else {
+      let payload = compressed[request.id];
+      delete compressed[request.id];
+      if (request.uploadUrl) {
+        let xhr = new XMLHttpRequest();
+        xhr.open("POST", request.uploadUrl);
+        xhr.setRequestHeader("Content-Type", "application/json");
+        xhr.setRequestHeader("X-Clarity-Codec", request.codec);
+        xhr.setRequestHeader("X-Clarity-Checksum", request.checksum);
+        xhr.onreadystatechange = () => {
+          if (xhr.readyState === XMLHttpRequest.DONE) {
+            scope.postMessage({
+              id: request.id,
+              status: xhr.status,
+              retryAfter: xhr.getResponseHeader("Retry-After"),
+              response: xhr.responseText
+            });
+          }
+        };
+        xhr.send(JSON.stringify(payload));
+      }
+    }
+  };
+}
@@ -0,0 +1,102 @@
+import { consumeBudget, createBudgetState, takeDroppedEvents } from "../src/budgets";
+import { config, getEventBudget } from "../src/config";
+import * as core from "../src/core";
+import { cleanupFixture, getEventsByType, observeEvents, setupFixture, triggerSend } from "./utils";
+
+import * as chai from "chai";
+
+let assert = chai.assert;
+
+describe("Budget Tests", () => {
+
+  beforeEach(setupFixture);
+  afterEach(cleanupFixture);
+
+  it("validates that events over budget are dropped and reported, while other events are still recorded", (done) => {
+    let eventName = "BudgetTest";
+    let otherEventName = "OtherBudgetTest";
+    let stopObserving = observeEvents();
+    config.budgets = { BudgetTest: { eventsPerSecond: 2 } };
+    for (let i = 0; i < 5; i++) {
+      core.addEvent(eventName, { index: i });
+    }
+    core.addEvent(otherEventName, {});
+    triggerSend();
+    jasmine.clock().tick(config.budgetReportInterval);
+
+    let events = stopObserving();
+    let budgetEvents = getEventsByType(events, eventName);
+    let otherEvents = getEventsByType(events, otherEventName);
+    let reports = getEventsByType(events, "Instrumentation").filter(
+      (evt: IEvent) => evt.state.type === Instrumentation.BudgetExceeded);
+    assert.equal(core.state, State.Activated);
+    assert.equal(budgetEvents.length, 2);
+    assert.equal(budgetEvents[1].state.index, 1);
+    assert.equal(otherEvents.length, 1);
+    assert.equal(otherEvents[0].id, budgetEvents[1].id + 1);
+    assert.equal(reports.length, 1);
+    assert.equal(reports[0].state.dropped[eventName].events, 3);
+    assert.equal(reports[0].state.dropped[eventName].bytes > 0, true);
+    assert.isUndefined(reports[0].state.dropped[otherEventName]);
+    done();
+  });
+
+  it("validates that rate budgets recover in the next window, while the total budget doesn't", (done) => {
+    let state = createBudgetState();
+    config.budgets = {
+      Rate: { eventsPerSecond: 1 },
+      Bytes: { bytesPerMinute: 100 },
+      Total: { total: 1 }
+    };
+
+    assert.isTrue(consumeBudget(state, "Rate", 10, 0));
+    assert.isFalse(consumeBudget(state, "Rate", 10, 999));
+    assert.isTrue(consumeBudget(state, "Rate", 10, 1000));
+    assert.isTrue(consumeBudget(state, "Bytes", 60, 0));
+    assert.isFalse(consumeBudget(state, "Bytes", 60, 59999));
+    assert.isTrue(consumeBudget(state, "Bytes", 60, 60000));
+    assert.isTrue(consumeBudget(state, "Total", 10, 0));
+    assert.isFalse(consumeBudget(state, "Total", 10, 60000));
+    assert.isTrue(consumeBudget(state, "Unlimited", 1000, 0));
+    assert.deepEqual(takeDroppedEvents(state), {
+      Rate: { events: 1, bytes: 10 },
+      Bytes: { events: 1, bytes: 60 },
+      Total: { events: 1, bytes: 10 }
+    });
+    assert.isNull(takeDroppedEvents(state));
+    done();
+  });
+
+  it("validates that budgets left out of the config keep their defaults, and budgets set to null are lifted", (done) => {
+    let state = createBudgetState();
+    let layoutBudget = getEventBudget("Layout");
+    config.budgets = { Pointer: { eventsPerSecond: 1 }, Viewport: null };
+
+    assert.isTrue(consumeBudget(state, "Pointer", 10, 0));
+    assert.isFalse(consumeBudget(state, "Pointer", 10, 0));
+    for (let i = 0; i < 100; i++) {
+      assert.isTrue(consumeBudget(state, "Viewport", 10, 0));
+    }
+    assert.isTrue(consumeBudget(state, "Layout", layoutBudget.bytesPerMinute, 0));
+    assert.isFalse(consumeBudget(state, "Layout", 1, 0));
+    assert.deepEqual(getEventBudget("Layout"), layoutBudget);
+    done();
+  });
+
+  it("validates that events dropped right before teardown are reported in the final payload", (done) => {
+    let eventName = "BudgetTeardownTest";
+    let stopObserving = observeEvents();
+    config.budgets = { BudgetTeardownTest: { total: 1 } };
+    core.addEvent(eventName, {});
+    core.addEvent(eventName, {});
+    core.teardown();
+
+    let events = stopObserving();
+    let reports = getEventsByType(events, "Instrumentation").filter(
+      (evt: IEvent) => evt.state.type === Instrumentation.BudgetExceeded);
+    assert.equal(getEventsByType(events, eventName).length, 1);
+    assert.equal(reports.length, 1);
+    assert.equal(reports[0].state.dropped[eventName].events, 1);
+    done();
+  });
+});
@@ -0,0 +1,124 @@
+import { registerCodec } from "../src/clarity";
+import { encodePayload, getCodec } from "../src/codecs";
+import { config } from "../src/config";
+import * as core from "../src/core";
+import { decode } from "../src/uncompress";
+import { activateCore, cleanupFixture, getAllSentBytes, setupFixture, triggerSend } from "./utils";
+
+import * as chai from "chai";
+
+let assert = chai.assert;
+
+describe("Codec Tests", () => {
+  let payload = JSON.stringify({ envelope: { sequenceNumber: 0 }, events: [{ text: "Payload that repeats, repeats, repeats" }] });
+
+  beforeEach(setupFixture);
+  afterEach(cleanupFixture);
+
+  it("validates that every built-in codec round-trips the payload", (done) => {
+    let codecs = ["none", "lz-base64", "gzip-base64"];
+    let results: ICompressionResult[] = [];
+    let verifyNext = () => {
+      let result = results.shift();
+      if (!result) {
+        done();
+        return;
+      }
+      decode(result.compressed, result.codec, (decoded: string) => {
+        assert.equal(decoded, payload);
+        verifyNext();
+      });
+    };
+
+    for (let name of codecs) {
+      encodePayload(payload, getCodec(name), (result: ICompressionResult) => {
+        assert.equal(result.codec, getCodec(name).name);
+        results.push(result);
+        if (results.length === codecs.length) {
+          verifyNext();
+        }
+      });
+    }
+  });
+
+  it("validates that unknown and failing codecs fall back to the default codec", (done) => {
+    registerCodec({
+      name: "failing",
+      encode: (uncompressed: string) => { throw new Error("Failing codec"); }
+    });
+    encodePayload(payload, getCodec("failing"), (failingResult: ICompressionResult) => {
+      let unknownCodec = getCodec("unknown");
+      assert.equal(failingResult.codec, "lz-base64");
+      assert.equal(unknownCodec.name, "lz-base64");
+      decode(failingResult.compressed, failingResult.codec, (decoded: string) => {
+        assert.equal(decoded, payload);
+        done();
+      });
+    });
+  });
+
+  it("validates that codecs which would replace a registered codec are rejected", (done) => {
+    let encode = (uncompressed: string) => uncompressed;
+    let builtInCodec = getCodec("lz-base64");
+    assert.isFalse(registerCodec({ name: "lz-base64", encode }));
+    assert.isFalse(registerCodec({ name: "none", encode }));
+    assert.isFalse(registerCodec({ name: "invalid" } as ICodec));
+    assert.isTrue(registerCodec({ name: "replacing", encode }));
+    assert.isFalse(registerCodec({ name: "replacing", encode }));
+    assert.equal(getCodec("lz-base64"), builtInCodec);
+    assert.equal(getCodec("replacing").encode, encode);
+    done();
+  });
+
+  it("validates that uploads are encoded with the configured codec and name it in a header", (done) => {
+    let codecHeaders: string[] = [];
+    spyOn(XMLHttpRequest.prototype, "setRequestHeader").and.callFake((header: string, value: string) => {
+      if (header === "X-Clarity-Codec") {
+        codecHeaders.push(value);
+      }
+    });
+
+    core.teardown();
+    config.codec = "none";
+    activateCore();
+
+    let sentBytes = getAllSentBytes();
+    let sentPayload: IPayload = JSON.parse(JSON.parse(sentBytes[0]));
+    assert.equal(codecHeaders.length, sentBytes.length);
+    assert.equal(codecHeaders[0], "none");
+    assert.equal(sentPayload.envelope.sequenceNumber, 0);
+    done();
+  });
+
+  it("validates that payloads of asynchronous codecs are sent in order and finished synchronously on teardown", (done) => {
+    registerCodec({
+      name: "delayed",
+      encodeAsync: (uncompressed: string, callback: (encoded: string) => void) => {
+        setTimeout(() => { callback(uncompressed); }, config.delay * 10);
+      }
+    });
+    core.teardown();
+    config.codec = "delayed";
+    activateCore();
+    core.addEvent("CodecTest", {});
+    triggerSend();
+    core.addEvent("CodecTest", {});
+    triggerSend();
+
+    // First payload is still being encoded, which holds the following ones back
+    assert.equal(getAllSentBytes().length, 0);
+    jasmine.clock().tick(config.delay * 10);
+    assert.equal(getAllSentBytes().length, 1);
+    core.teardown();
+
+    let sentBytes = getAllSentBytes();
+    let lastPayload = sentBytes[sentBytes.length - 1];
+    decode(JSON.parse(lastPayload), "lz-base64", (decoded: string) => {
+      let payloads: IPayload[] = [JSON.parse(JSON.parse(sentBytes[0]))];
+      payloads.push(JSON.parse(decoded));
+      assert.equal(payloads[0].envelope.sequenceNumber, 0);
+      assert.isAbove(payloads[1].envelope.sequenceNumber, 1);
+      done();
+    });
+  });
+});
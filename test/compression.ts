@@ -1,5 +1,5 @@
-import compress from "../src/compress";
-import uncompress from "./uncompress";
+import compress, { createCompressor } from "../src/compress";
+import uncompress from "../src/uncompress";
 
 let assert = chai.assert;
 
@@ -14,4 +14,21 @@ describe("Data Compression Tests", () => {
     assert.equal(compressed === str, false);
     assert.equal(uncompressed === str, true);
   });
+
+  it("should validate that compression can be split into slices", () => {
+    let str = "";
+    for (let i = 0; i < 500; i++) {
+      str += `Slice ${i} of the string.`;
+    }
+    let compressor = createCompressor(str);
+    let slices = 1;
+    let compressed = compressor(() => true);
+    while (compressed === null) {
+      slices++;
+      compressed = compressor(() => true);
+    }
+    assert.equal(slices, Math.ceil(str.length / 1000));
+    assert.equal(compressed, compress(str));
+    assert.equal(uncompress(compressed), str);
+  });
 });
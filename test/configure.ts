@@ -0,0 +1,91 @@
+import { configure } from "../src/clarity";
+import { config } from "../src/config";
+import * as core from "../src/core";
+import { cleanupFixture, getAllSentBytes, getEventsByType, observeEvents, setupFixture, triggerSend } from "./utils";
+
+import * as chai from "chai";
+
+let assert = chai.assert;
+
+describe("Configure Tests", () => {
+
+  beforeEach(setupFixture);
+  afterEach(cleanupFixture);
+
+  it("validates that settings which can change while recording apply right away, while the others are rejected", (done) => {
+    let stopObserving = observeEvents();
+    let bytesLengthBefore = getAllSentBytes().length;
+    let delay = config.delay;
+    configure({ delay: delay * 4, compactEvents: true, root: document.body, batchLimit: config.batchLimit });
+    core.addEvent("ConfigureTest", {});
+    jasmine.clock().tick(delay * 2);
+    let earlyBytesLength = getAllSentBytes().length;
+
+    let events = stopObserving();
+    let rejections = getEventsByType(events, "Instrumentation").filter(
+      (evt: IEvent) => evt.state.type === Instrumentation.ConfigRejected);
+    assert.equal(core.state, State.Activated);
+    assert.equal(config.delay, delay * 4);
+    assert.isFalse(config.compactEvents);
+    assert.notEqual(config.root, document.body);
+    assert.equal(earlyBytesLength, bytesLengthBefore);
+    assert.equal(getEventsByType(events, "ConfigureTest").length, 1);
+    assert.deepEqual(rejections.map((evt: IEvent) => evt.state.setting), ["compactEvents", "root"]);
+    done();
+  });
+
+  it("validates that lowering the sample rate keeps recording only the impressions that fit the new rate", (done) => {
+    spyOn(Math, "random").and.returnValue(0.7);
+    configure({ sampleRate: 0.8 });
+    let keptState = core.state;
+    configure({ sampleRate: 0.5 });
+
+    assert.equal(keptState, State.Activated);
+    assert.equal(core.state, State.Unloaded);
+    done();
+  });
+
+  it("validates that plugins are torn down and activated while recording goes on", (done) => {
+    let plugins = config.plugins;
+    let stopObserving = observeEvents();
+    configure({ plugins: plugins.filter((plugin: string) => plugin !== "customdata" && plugin !== "viewport") });
+    triggerCustomEvent({ type: "removed", data: null });
+    let removedEvents = stopObserving();
+
+    stopObserving = observeEvents();
+    configure({ plugins });
+    triggerCustomEvent({ type: "added", data: null });
+    let addedEvents = stopObserving();
+    let viewportEvents = getEventsByType(addedEvents, "Viewport");
+    assert.equal(core.state, State.Activated);
+    assert.equal(getEventsByType(removedEvents, "Custom").length, 0);
+    assert.equal(getEventsByType(addedEvents, "Custom").length, 1);
+    assert.equal(viewportEvents.length, 1);
+    assert.equal(viewportEvents[0].state.event, "discover");
+    done();
+  });
+
+  it("validates that layout is recorded again with the new masking when it changes", (done) => {
+    let stopObserving = observeEvents();
+    configure({ showText: !config.showText });
+    triggerSend();
+
+    let events = stopObserving();
+    let resetEvents = getEventsByType(events, "LayoutReset");
+    let layoutEvents = getEventsByType(events, "Layout");
+    let textEvents = layoutEvents.filter((evt: IEvent) => evt.state.tag === "*TXT*");
+    let contents = textEvents.map((evt: IEvent) => evt.state.content);
+    assert.include(contents, config.showText ? "Clarity" : "*******");
+    assert.equal(resetEvents.length, 1);
+    assert.equal(resetEvents[0].state.reason, "masking");
+    assert.isBelow(resetEvents[0].id, layoutEvents[0].id);
+    done();
+  });
+
+  function triggerCustomEvent(detail: ITypeData) {
+    let clarityEvent = document.createEvent("Event");
+    clarityEvent.initEvent("claritydata", true, false);
+    clarityEvent["detail"] = detail;
+    window.dispatchEvent(clarityEvent);
+  }
+});
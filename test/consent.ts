@@ -0,0 +1,128 @@
+import { setConsent } from "../src/clarity";
+import { config } from "../src/config";
+import * as core from "../src/core";
+import { claimStoredPayloads, storePayload } from "../src/storage";
+import uncompress from "../src/uncompress";
+import { getCookie } from "../src/utils";
+import { activateCore, cleanupFixture, getAllSentBytes, getAllSentEvents, getEventsByType, setupFixture, triggerSend } from "./utils";
+
+import * as chai from "chai";
+
+let assert = chai.assert;
+
+describe("Consent Tests", () => {
+  let cookieName = "ClarityID";
+  let eventName = "ConsentMockEvent";
+
+  beforeEach(setupFixture);
+  afterEach(cleanupFixture);
+
+  it("validates that nothing is uploaded and no cookie is written while consent is pending", (done) => {
+    activatePending();
+    core.addEvent(eventName, {});
+    triggerSend();
+
+    assert.equal(getAllSentBytes().length, 0);
+    assert.equal(getCookie(cookieName), null);
+    done();
+  });
+
+  it("validates that granting consent writes the cookie and flushes buffered events in order", (done) => {
+    activatePending();
+    core.addEvent(eventName, { data: 1 });
+    core.addEvent(eventName, { data: 2 });
+    setConsent("granted");
+    triggerSend();
+
+    let payloads = getSentPayloads();
+    let events = getEventsByType(getAllSentEvents(), eventName);
+    assert.equal(payloads.length, 1);
+    assert.equal(payloads[0].envelope.sequenceNumber, 0);
+    assert.equal(payloads[0].envelope.clarityId, getCookie(cookieName));
+    assert.isNotNull(getCookie(cookieName));
+    assert.equal(events.length, 2);
+    assert.equal(events[0].state.data, 1);
+    assert.equal(events[1].state.data, 2);
+    assert.equal(events[1].id, events[0].id + 1);
+    done();
+  });
+
+  it("validates that events over the consent buffer limit are dropped and reported on grant", (done) => {
+    activatePending();
+    config.consentBufferLimit = 0;
+    core.addEvent(eventName, {});
+    core.addEvent(eventName, {});
+    setConsent("granted");
+    triggerSend();
+
+    let events = getAllSentEvents();
+    let instrumentationEvents = getEventsByType(events, "Instrumentation");
+    assert.equal(getEventsByType(events, eventName).length, 0);
+    assert.equal(instrumentationEvents.length, 1);
+    assert.equal(instrumentationEvents[0].state.type, Instrumentation.ConsentBufferExceeded);
+    assert.equal(instrumentationEvents[0].state.droppedEvents, 2);
+    done();
+  });
+
+  it("validates that denying consent discards buffered events and tears Clarity down", (done) => {
+    activatePending();
+    core.addEvent(eventName, {});
+    setConsent("denied");
+    core.addEvent(eventName, {});
+    triggerSend();
+
+    assert.equal(core.state, State.Unloaded);
+    assert.equal(getAllSentBytes().length, 0);
+    assert.equal(getCookie(cookieName), null);
+    done();
+  });
+
+  it("validates that priority events waiting for their upload are discarded when consent is denied", (done) => {
+    core.addEvent(eventName, { data: 1 }, undefined, true);
+    core.addEvent(eventName, { data: 2 }, undefined, true);
+    let bytesLengthBeforeDenial = getAllSentBytes().length;
+    setConsent("denied");
+    jasmine.clock().tick(config.delay * 2);
+
+    let events = getEventsByType(getAllSentEvents(), eventName);
+    assert.equal(getAllSentBytes().length, bytesLengthBeforeDenial);
+    assert.deepEqual(events.map((evt: IEvent) => evt.state.data), [1]);
+    done();
+  });
+
+  it("validates that denying consent removes the undelivered payloads that were kept for the next page load", (done) => {
+    config.storageLimit = 1024 * 1024;
+    config.uploadHandler = (payload: string, onSuccess: UploadCallback, onFailure?: UploadCallback) => {
+      onFailure(500);
+    };
+    core.addEvent(eventName, {});
+    triggerSend();
+    let storedBeforeDenial: number;
+
+    // Payload can be claimed only once the heartbeat of its page expires, so it's put back right away
+    jasmine.clock().mockDate(new Date(new Date().getTime() + config.retryMaxDelay * 2 + 1));
+    claimStoredPayloads((payloads: IDroppedPayloadInfo[]) => {
+      storedBeforeDenial = payloads.length;
+      payloads.forEach((payloadInfo: IDroppedPayloadInfo) => { storePayload(payloadInfo); });
+    });
+    setConsent("denied");
+
+    claimStoredPayloads((payloads: IDroppedPayloadInfo[]) => {
+      assert.equal(core.state, State.Unloaded);
+      assert.equal(storedBeforeDenial, 1);
+      assert.equal(payloads.length, 0);
+      done();
+    });
+  });
+
+  function activatePending() {
+    core.teardown();
+    document.cookie = `${cookieName}=;expires=Thu, 01 Jan 1970 00:00:00 GMT;path=/`;
+    config.consent = "pending";
+    activateCore();
+  }
+
+  function getSentPayloads(): IPayload[] {
+    return getAllSentBytes().map((sentBytes: string) => JSON.parse(uncompress(JSON.parse(sentBytes))));
+  }
+});
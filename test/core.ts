@@ -1,8 +1,10 @@
+import { off, on, pause, resume } from "../src/clarity";
 import { config } from "../src/config";
 import * as core from "../src/core";
-import uncompress from "./uncompress";
+import uncompress from "../src/uncompress";
+import { setBeaconAccepted } from "./testsetup";
 import { activateCore, cleanupFixture, setupFixture } from "./utils";
-import { getAllSentBytes, getAllSentEvents, MockEventName, observeEvents, triggerMockEvent, triggerSend } from "./utils";
+import { getAllSentBytes, getAllSentEvents, getEventsByType, MockEventName, observeEvents, triggerMockEvent, triggerSend } from "./utils";
 
 import * as chai from "chai";
 
@@ -27,11 +29,13 @@ describe("Functional Tests", () => {
     Function.prototype.bind = originalBind;
 
     let events = getAllSentEvents();
-    assert.equal(events.length, 2);
+    assert.equal(events.length, 3);
     assert.equal(events[0].type, instrumentationEventName);
     assert.equal(events[0].state.type, Instrumentation.MissingFeature);
     assert.equal(events[1].type, instrumentationEventName);
     assert.equal(events[1].state.type, Instrumentation.Teardown);
+    assert.equal(events[2].type, instrumentationEventName);
+    assert.equal(events[2].state.type, Instrumentation.UnloadUpload);
 
     done();
   });
@@ -94,12 +98,13 @@ describe("Functional Tests", () => {
     done();
   });
 
-  it("validates that dropped payloads are re-sent through the next request's 'onSuccess' callback", (done) => {
+  it("validates that dropped payloads are re-sent by the retry scheduler without waiting for new events", (done) => {
     let stopObserving = observeEvents();
     let mockFailure = true;
     let uploadInvocationCount = 0;
 
     // Mock 1 failed request
+    config.retryDelay = config.delay;
     config.uploadHandler = (payload: string, onSuccess: UploadCallback, onFailure?: UploadCallback) => {
       if (mockFailure) {
         onFailure(400);
@@ -114,9 +119,11 @@ describe("Functional Tests", () => {
     triggerMockEvent();
     let events = stopObserving();
 
-    // Not expecting any events to be sent quite yet at this point, because request with mock event failed
-    // and generated XhrError instrumentation event doesn't get sent out on its own (edge case exception)
-    assert.equal(events.length, 0);
+    // Upload invocations: First mock event, first mock event retry
+    // Generated XhrError instrumentation event doesn't get sent out on its own (edge case exception)
+    assert.equal(uploadInvocationCount, 2);
+    assert.equal(events.length, 1);
+    assert.equal(events[0].type, MockEventName);
 
     // Generate one more event to trigger proper upload
     let secondMockEventName = "SecondMockEvent";
@@ -124,18 +131,104 @@ describe("Functional Tests", () => {
     triggerMockEvent(secondMockEventName);
     events = stopObserving();
 
-    // Upload invocations: First mock event, second mock event, first mock event re-upload
     assert.equal(uploadInvocationCount, 3);
-    assert.equal(events.length, 3);
+    assert.equal(events.length, 2);
     assert.equal(events[0].type, instrumentationEventName);
     assert.equal(events[0].state.type, Instrumentation.XhrError);
     assert.equal(events[0].state.requestStatus, 400);
+    assert.equal(events[0].state.retryDecision, RetryDecision.Scheduled);
+    assert.equal(events[0].state.retryDelay <= config.retryDelay, true);
     assert.equal(events[1].type, secondMockEventName);
-    assert.equal(events[2].type, MockEventName);
 
     done();
   });
 
+  it("validates that retries back off exponentially and stop after the retry limit", (done) => {
+    let uploadTimes: number[] = [];
+    let elapsed = 0;
+    let tickLength = 50;
+
+    config.retryDelay = config.delay;
+    config.retryMaxDelay = config.delay * 4;
+    config.retryLimit = 3;
+    config.uploadHandler = (payload: string, onSuccess: UploadCallback, onFailure?: UploadCallback) => {
+      uploadTimes.push(elapsed);
+      onFailure(500);
+    };
+    core.addEvent(MockEventName, {});
+    while (elapsed < config.retryMaxDelay * 5) {
+      jasmine.clock().tick(tickLength);
+      elapsed += tickLength;
+    }
+
+    // Upload invocations: First mock event, followed by 3 retries with growing delays in between
+    assert.equal(uploadTimes.length, 4);
+    for (let i = 2; i < uploadTimes.length; i++) {
+      assert.equal(uploadTimes[i] - uploadTimes[i - 1] >= uploadTimes[i - 1] - uploadTimes[i - 2], true);
+    }
+    done();
+  });
+
+  it("validates that 'Retry-After' of a 429 response holds off retries", (done) => {
+    let uploadInvocationCount = 0;
+    let retryAfter = config.delay * 10;
+
+    config.retryDelay = config.delay;
+    config.uploadHandler = (payload: string, onSuccess: UploadCallback, onFailure?: UploadCallback) => {
+      uploadInvocationCount++;
+      if (uploadInvocationCount === 1) {
+        onFailure(429, retryAfter);
+      } else {
+        onSuccess(200);
+      }
+    };
+    triggerMockEvent();
+    assert.equal(uploadInvocationCount, 1);
+
+    // Default delay between retries has passed, but the one requested by the server hasn't
+    jasmine.clock().tick(config.retryDelay * 2);
+    assert.equal(uploadInvocationCount, 1);
+
+    jasmine.clock().tick(retryAfter);
+    assert.equal(uploadInvocationCount, 2);
+    done();
+  });
+
+  it("validates that retries pause while browser is offline and resume on the 'online' event", (done) => {
+    let uploadInvocationCount = 0;
+    let stopObserving = observeEvents(instrumentationEventName);
+
+    config.retryDelay = config.delay;
+    config.uploadHandler = (payload: string, onSuccess: UploadCallback, onFailure?: UploadCallback) => {
+      uploadInvocationCount++;
+      if (uploadInvocationCount === 1) {
+        onFailure(0);
+      } else {
+        mockUploadHandler(payload);
+        onSuccess(200);
+      }
+    };
+    Object.defineProperty(navigator, "onLine", { value: false, configurable: true });
+    triggerMockEvent();
+    triggerSend();
+    assert.equal(uploadInvocationCount, 1);
+
+    delete (navigator as any).onLine;
+    let onlineEvent = document.createEvent("Event");
+    onlineEvent.initEvent("online", true, true);
+    window.dispatchEvent(onlineEvent);
+    triggerSend();
+    assert.equal(uploadInvocationCount, 2);
+
+    // Flush XhrError instrumentation events
+    core.addEvent(MockEventName, {});
+    let events = stopObserving().filter((event: IEvent) => event.state.type === Instrumentation.XhrError);
+    assert.equal(events.length, 2);
+    assert.equal(events[0].state.retryDecision, RetryDecision.Scheduled);
+    assert.equal(events[1].state.retryDecision, RetryDecision.Offline);
+    done();
+  });
+
   it("validates that re-send cycle doesn't enter an infinite loop when all requests fail", (done) => {
     let uploadInvocationCount = 0;
 
@@ -272,13 +365,204 @@ describe("Functional Tests", () => {
     core.addEvent(eventName, {});
     assert.equal(getAllSentBytes().length, expectedBytesLength);
 
-    expectedBytesLength += 1;
+    // Residual payload is followed by the payload with instrumentation about its delivery
+    expectedBytesLength += 2;
     core.teardown();
     assert.equal(getAllSentBytes().length, expectedBytesLength);
 
     done();
   });
 
+  it("validates that residual payload is sent through the beacon on teardown", (done) => {
+    let eventName = "CoreBeaconOnTeardownTest";
+    let stopObserving = observeEvents();
+    core.addEvent(eventName, {});
+    core.teardown();
+
+    let events = stopObserving();
+    let unloadUploadEvents = getEventsByType(events, instrumentationEventName).filter(
+      (event: IEvent) => event.state.type === Instrumentation.UnloadUpload);
+    assert.equal(getEventsByType(events, eventName).length, 1);
+    assert.equal(unloadUploadEvents.length, 1);
+    assert.equal(unloadUploadEvents[0].state.transport, UploadTransport.Beacon);
+    assert.equal(unloadUploadEvents[0].state.beaconAccepted, true);
+
+    done();
+  });
+
+  it("validates that residual payload is sent through keep-alive fetch when beacon is rejected", (done) => {
+    let eventName = "CoreFetchOnTeardownTest";
+    let originalFetch = window["fetch"];
+    let fetchInits: RequestInit[] = [];
+    let fetchedEvents: IEvent[] = [];
+    let mockFetch: any = (url: string, init: RequestInit) => {
+      let payload: IPayload = JSON.parse(uncompress(JSON.parse(init.body as string)));
+      fetchInits.push(init);
+      fetchedEvents = fetchedEvents.concat(payload.events);
+      return { then: () => { return; } };
+    };
+    window["fetch"] = mockFetch;
+
+    setBeaconAccepted(false);
+    core.addEvent(eventName, {});
+    core.teardown();
+    setBeaconAccepted(true);
+    window["fetch"] = originalFetch;
+
+    let unloadUploadEvents = getEventsByType(fetchedEvents, instrumentationEventName).filter(
+      (event: IEvent) => event.state.type === Instrumentation.UnloadUpload);
+    assert.equal(fetchInits.length, 2);
+    assert.equal(fetchInits[0].keepalive, true);
+    assert.equal(getEventsByType(fetchedEvents, eventName).length, 1);
+    assert.equal(unloadUploadEvents.length, 1);
+    assert.equal(unloadUploadEvents[0].state.transport, UploadTransport.Fetch);
+    assert.equal(unloadUploadEvents[0].state.beaconAccepted, false);
+
+    done();
+  });
+
+  it("validates that subscribed handlers receive events of their type until they unsubscribe", (done) => {
+    let eventName = "CoreSubscriptionTest";
+    let receivedEvents: IEvent[] = [];
+    let handler = (event: IEvent) => { receivedEvents.push(event); };
+
+    on(eventName, handler);
+    core.addEvent(eventName, { data: 1 });
+    core.addEvent(MockEventName, {});
+    off(eventName, handler);
+    core.addEvent(eventName, { data: 2 });
+
+    assert.equal(receivedEvents.length, 1);
+    assert.equal(receivedEvents[0].type, eventName);
+    assert.equal(receivedEvents[0].state.data, 1);
+    assert.equal(typeof receivedEvents[0].id, "number");
+    done();
+  });
+
+  it("validates that exceptions in subscribed handlers don't break event recording", (done) => {
+    let eventName = "CoreFailingSubscriptionTest";
+    let handler = (event: IEvent) => { throw new Error("Handler failure"); };
+    let stopObserving = observeEvents(eventName);
+
+    on(eventName, handler);
+    core.addEvent(eventName, {});
+    off(eventName, handler);
+
+    assert.equal(stopObserving().length, 1);
+    done();
+  });
+
+  it("validates that processors can modify and drop events before they are batched", (done) => {
+    let eventName = "CoreProcessorTest";
+    let droppedEventName = "CoreDroppedProcessorTest";
+    let stopObserving = observeEvents();
+
+    config.processors = [
+      (event: IEvent) => event.type === droppedEventName ? null : event,
+      (event: IEvent) => {
+        if (event.type === eventName) {
+          event.state.redacted = true;
+        }
+        return event;
+      }
+    ];
+    core.addEvent(droppedEventName, {});
+    core.addEvent(eventName, { data: 1 });
+    triggerSend();
+
+    let events = stopObserving();
+    let sentEvents = getAllSentEvents();
+    assert.equal(events.length, 1);
+    assert.equal(events[0].type, eventName);
+    assert.equal(events[0].state.redacted, true);
+    assert.equal(sentEvents[sentEvents.length - 1].type, eventName);
+    assert.equal(sentEvents[sentEvents.length - 1].state.redacted, true);
+    assert.equal(getEventsByType(sentEvents, droppedEventName).length, 0);
+    done();
+  });
+
+  it("validates that events, for which a processor throws, are dropped and the failure is logged", (done) => {
+    let eventName = "CoreFailingProcessorTest";
+    let stopObserving = observeEvents();
+
+    config.processors = [
+      (event: IEvent) => event,
+      (event: IEvent) => {
+        if (event.type === eventName) {
+          throw new Error("Processor failure");
+        }
+        return event;
+      }
+    ];
+    core.addEvent(eventName, {});
+    let firstEventId = stopObserving()[0].id;
+    core.addEvent(MockEventName, {});
+
+    let events = stopObserving();
+    assert.equal(events.length, 2);
+    assert.equal(events[0].type, instrumentationEventName);
+    assert.equal(events[0].state.type, Instrumentation.ProcessorFailed);
+    assert.equal(events[0].state.processor, 1);
+    assert.equal(events[0].state.eventType, eventName);
+    assert.equal(events[0].state.message, "Processor failure");
+    assert.equal(events[1].type, MockEventName);
+    assert.equal(events[1].id, firstEventId + 1);
+    done();
+  });
+
+  it("validates that events aren't recorded while paused and the envelope records the pause interval", (done) => {
+    let eventName = "CorePauseTest";
+    let stopObserving = observeEvents(eventName);
+
+    pause();
+    core.addEvent(eventName, { data: 1 });
+    resume();
+    core.addEvent(eventName, { data: 2 });
+    triggerSend();
+
+    let events = stopObserving();
+    let payloads = getAllSentBytes().map((sentBytes: string): IPayload => JSON.parse(uncompress(JSON.parse(sentBytes))));
+    let lastPayload = payloads[payloads.length - 1];
+    assert.equal(events.length, 1);
+    assert.equal(events[0].state.data, 2);
+    assert.equal(lastPayload.envelope.pauses.length, 1);
+    assert.isAtMost(lastPayload.envelope.pauses[0].start, lastPayload.envelope.pauses[0].end);
+    assert.equal(payloads[0].envelope.pauses, undefined);
+    done();
+  });
+
+  it("validates that upload hooks receive the envelope and the delivery status", (done) => {
+    let envelopes: IEnvelope[] = [];
+    let results: IUploadResult[] = [];
+    let mockFailure = true;
+
+    config.retryDelay = config.delay;
+    config.onBeforeUpload = (envelope: IEnvelope) => { envelopes.push(envelope); };
+    config.onUploadResult = (result: IUploadResult) => { results.push(result); };
+    config.uploadHandler = (payload: string, onSuccess: UploadCallback, onFailure?: UploadCallback) => {
+      if (mockFailure) {
+        mockFailure = false;
+        onFailure(500);
+      } else {
+        onSuccess(200);
+      }
+    };
+    triggerMockEvent();
+    triggerSend();
+
+    assert.equal(envelopes.length, 1);
+    assert.equal(results.length, 2);
+    assert.equal(results[0].envelope.sequenceNumber, envelopes[0].sequenceNumber);
+    assert.equal(results[0].status, 500);
+    assert.equal(results[0].delivered, false);
+    assert.equal(results[0].attemptNumber, 0);
+    assert.equal(results[1].envelope.sequenceNumber, envelopes[0].sequenceNumber);
+    assert.equal(results[1].status, 200);
+    assert.equal(results[1].delivered, true);
+    assert.equal(results[1].attemptNumber, 1);
+    done();
+  });
+
   it("validates that Clarity tears down when total byte limit is exceeded", (done) => {
     assert.equal(core.state, State.Activated);
 
@@ -306,6 +590,10 @@ describe("Functional Tests", () => {
     document[core.ClarityAttribute] = 1;
     activateCore();
     assert.equal(core.state, State.Unloaded);
+
+    // Clarity doesn't remove the mark of another instance
+    assert.equal(document[core.ClarityAttribute], 1);
+    delete document[core.ClarityAttribute];
     done();
   });
 
@@ -316,12 +604,15 @@ describe("Functional Tests", () => {
     activateCore();
 
     let events = getAllSentEvents();
-    assert.equal(events.length, 2);
+    assert.equal(events.length, 3);
     assert.equal(events[0].type, instrumentationEventName);
     assert.equal(events[0].state.type, Instrumentation.ClarityDuplicated);
     assert.equal(events[0].state.currentImpressionId, mockExistingImpressionId);
     assert.equal(events[1].type, instrumentationEventName);
     assert.equal(events[1].state.type, Instrumentation.Teardown);
+    assert.equal(events[2].type, instrumentationEventName);
+    assert.equal(events[2].state.type, Instrumentation.UnloadUpload);
+    delete document[core.ClarityAttribute];
     done();
   });
 
@@ -1,7 +1,8 @@
 import { config } from "../src/config";
 import * as core from "../src/core";
-import uncompress from "./uncompress";
-import { cleanupFixture, observeEvents, setupFixture, triggerSend } from "./utils";
+import { reassemble } from "../src/timeline";
+import uncompress from "../src/uncompress";
+import { cleanupFixture, getAllSentBytes, observeEvents, setupFixture, triggerSend } from "./utils";
 
 import * as chai from "chai";
 
@@ -45,6 +46,49 @@ describe("Custom Data Tests", () => {
     }
   });
 
+  it("validates that critical custom events are uploaded right away in payloads of their own", (done) => {
+    let dom = document.getElementById("clarity");
+    let bytesLengthBefore = getAllSentBytes().length;
+    core.addEvent("PriorityTest", {});
+    triggerCustomEvent(dom, { type: "conversion", data: "purchase", critical: true });
+
+    let priorityPayloads: IPayload[] = getPayloads(bytesLengthBefore);
+    core.addEvent("PriorityTest", {});
+    triggerSend();
+
+    let payloads: IPayload[] = getPayloads(bytesLengthBefore);
+    let timeline = reassemble(payloads)[0];
+    assert.equal(priorityPayloads.length, 1);
+    assert.equal(priorityPayloads[0].envelope.eventCount, 1);
+    assert.equal(priorityPayloads[0].events[0].type, eventName);
+    assert.equal(priorityPayloads[0].events[0].state.type, "conversion");
+    assert.equal(payloads.length, 2);
+    assert.deepEqual(payloads[1].events.map((evt: IEvent) => evt.type), ["PriorityTest", "PriorityTest"]);
+    assert.deepEqual(timeline.events.map((evt: IEvent) => evt.type), ["PriorityTest", eventName, "PriorityTest"]);
+    done();
+  });
+
+  it("validates that critical events that follow in quick succession are uploaded together", (done) => {
+    let dom = document.getElementById("clarity");
+    let bytesLengthBefore = getAllSentBytes().length;
+    for (let i = 0; i < 3; i++) {
+      triggerCustomEvent(dom, { type: "conversion", data: i, critical: true });
+    }
+    let immediatePayloads: IPayload[] = getPayloads(bytesLengthBefore);
+    jasmine.clock().tick(1000);
+
+    let payloads: IPayload[] = getPayloads(bytesLengthBefore);
+    assert.equal(immediatePayloads.length, 1);
+    assert.equal(immediatePayloads[0].envelope.eventCount, 1);
+    assert.equal(payloads.length, 2);
+    assert.deepEqual(payloads[1].events.map((evt: IEvent) => evt.state.data), [1, 2]);
+    done();
+  });
+
+  function getPayloads(bytesLengthBefore: number): IPayload[] {
+    return getAllSentBytes().slice(bytesLengthBefore).map((sentBytes: string) => JSON.parse(uncompress(JSON.parse(sentBytes))));
+  }
+
   function triggerCustomEvent(target, detail) {
     let clarityEvent;
 
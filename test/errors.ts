@@ -1,3 +1,4 @@
+import { pause, resume } from "../src/clarity";
 import { activateCore, cleanupFixture, getAllSentEvents, setupFixture, triggerSend } from "./utils";
 
 import * as chai from "chai";
@@ -86,4 +87,18 @@ describe("Error Tests", () => {
         assert.equal(errorEvents[0].state.message, message);
         done();
     });
+
+    it("checks that errors of the page aren't logged while recording is paused", (done) => {
+        let syntheticEvent = document.createEvent("Event");
+        syntheticEvent.initEvent("error", false, false);
+        syntheticEvent["message"] = "sample paused error text";
+        pause();
+        window.dispatchEvent(syntheticEvent);
+        resume();
+        triggerSend();
+        let events = getAllSentEvents();
+        let errorEvents = events.filter((event) => event.state.type === Instrumentation.JsError);
+        assert.equal(errorEvents.length, 0);
+        done();
+    });
 });
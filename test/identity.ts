@@ -0,0 +1,109 @@
+import { config } from "../src/config";
+import * as core from "../src/core";
+import uncompress from "../src/uncompress";
+import { getCookie } from "../src/utils";
+import { activateCore, cleanupFixture, getAllSentBytes, setupFixture } from "./utils";
+
+import * as chai from "chai";
+
+let assert = chai.assert;
+
+describe("Identity Tests", () => {
+  let cookieName = "ClarityIdentityTest";
+  let storageKey = "clarity-id";
+  let cookieDescriptor = Object.getOwnPropertyDescriptor(Document.prototype, "cookie");
+  let writtenCookies: string[];
+  let blockCookies: boolean;
+
+  beforeEach(() => {
+    setupFixture();
+    core.teardown();
+    writtenCookies = [];
+    blockCookies = false;
+    sessionStorage.removeItem(storageKey);
+    Object.defineProperty(document, "cookie", {
+      configurable: true,
+      get: () => cookieDescriptor.get.call(document),
+      set: (value: string) => {
+        writtenCookies.push(value);
+        if (!blockCookies) {
+          cookieDescriptor.set.call(document, value);
+        }
+      }
+    });
+    config.cookieName = cookieName;
+  });
+
+  afterEach(() => {
+    document.cookie = `${cookieName}=;expires=Thu, 01 Jan 1970 00:00:00 GMT;path=/`;
+    delete (document as any).cookie;
+    sessionStorage.removeItem(storageKey);
+    cleanupFixture();
+  });
+
+  it("validates that cookie names are matched in full", (done) => {
+    document.cookie = `X${cookieName}=prefixed;path=/`;
+    assert.equal(getCookie(cookieName), null);
+    document.cookie = `${cookieName}=exact;path=/`;
+    assert.equal(getCookie(cookieName), "exact");
+    document.cookie = `X${cookieName}=;expires=Thu, 01 Jan 1970 00:00:00 GMT;path=/`;
+    done();
+  });
+
+  it("validates that clarityId cookie is written according to the cookie policy", (done) => {
+    config.cookieExpiry = 30;
+    config.cookieSameSite = "Lax";
+    activateCore();
+
+    let envelope = getLastEnvelope();
+    assert.equal(writtenCookies.length, 1);
+    assert.equal(writtenCookies[0].indexOf(`${cookieName}=${envelope.clarityId};path=/`), 0);
+    assert.isAbove(writtenCookies[0].indexOf(";expires="), 0);
+    assert.isAbove(writtenCookies[0].indexOf(";samesite=Lax"), 0);
+    assert.equal(writtenCookies[0].indexOf(";secure"), -1);
+    assert.equal(envelope.identityMode, "cookie");
+    done();
+  });
+
+  it("validates that cookieless mode keeps clarityId in sessionStorage", (done) => {
+    config.identityMode = "session";
+    activateCore();
+    let firstEnvelope = getLastEnvelope();
+    core.teardown();
+    activateCore();
+    let secondEnvelope = getLastEnvelope();
+
+    assert.equal(writtenCookies.length, 0);
+    assert.equal(sessionStorage.getItem(storageKey), firstEnvelope.clarityId);
+    assert.equal(firstEnvelope.identityMode, "session");
+    assert.equal(secondEnvelope.clarityId, firstEnvelope.clarityId);
+    done();
+  });
+
+  it("validates that clarityId falls back to sessionStorage when cookies are blocked", (done) => {
+    blockCookies = true;
+    activateCore();
+
+    let envelope = getLastEnvelope();
+    assert.equal(envelope.identityMode, "session");
+    assert.equal(sessionStorage.getItem(storageKey), envelope.clarityId);
+    done();
+  });
+
+  // Memory mode keeps clarityId until the page is unloaded, which would leak it into following tests, so this test goes last
+  it("validates that memory mode doesn't write clarityId anywhere", (done) => {
+    config.identityMode = "memory";
+    activateCore();
+
+    assert.equal(writtenCookies.length, 0);
+    assert.equal(sessionStorage.getItem(storageKey), null);
+    assert.equal(getLastEnvelope().identityMode, "memory");
+    done();
+  });
+
+  function getLastEnvelope(): IEnvelope {
+    let sentBytes = getAllSentBytes();
+    let payload: IPayload = JSON.parse(uncompress(JSON.parse(sentBytes[sentBytes.length - 1])));
+    return payload.envelope;
+  }
+});
@@ -0,0 +1,146 @@
+import { readUpload, reassemble, validatePayload } from "../src/ingestion";
+import { IRecordedUpload, RecordedUploads } from "./uploads.fixture";
+
+import * as chai from "chai";
+
+let assert = chai.assert;
+
+describe("Ingestion Tests", () => {
+
+  it("validates that recorded uploads of every codec are read into payloads with regular events", (done) => {
+    readUploads(RecordedUploads, (payloads: IPayload[]) => {
+      let compactPayload = payloads[2];
+      assert.equal(payloads.length, RecordedUploads.length);
+      assert.equal(payloads[1].envelope.sequenceNumber, 1);
+      assert.equal(payloads[3].envelope.sequenceNumber, 3);
+      assert.isUndefined(compactPayload.envelope.schema);
+      assert.equal(compactPayload.events[0].type, "Pointer");
+      assert.equal(compactPayload.events[0].state.event, "mousemove");
+      assert.equal(compactPayload.events[0].state.pressure, 1);
+      assert.equal(compactPayload.events[1].state.name, "scroll");
+      done();
+    });
+  });
+
+  it("validates that malformed uploads are rejected with the reason", (done) => {
+    let upload = RecordedUploads[0];
+    let invalidPayload = JSON.stringify(JSON.stringify({ envelope: { sequenceNumber: -1, tags: { plan: 1 } }, events: [{ id: 0 }] }));
+    let errors: string[] = [];
+    let collect = (error: Error, payload?: IPayload) => {
+      assert.isUndefined(payload);
+      errors.push(error.message);
+    };
+
+    readUpload("{", upload.codec, upload.checksum, collect);
+    readUpload(upload.body, upload.codec, "00000000", collect);
+    readUpload(upload.body, "unknown", upload.checksum, collect);
+    readUpload(invalidPayload, "none", null, collect);
+    assert.equal(errors.length, 4);
+    assert.include(errors[0], "isn't valid JSON");
+    assert.include(errors[1], "Checksum");
+    assert.include(errors[2], "codec \"unknown\"");
+    assert.include(errors[3], "envelope.sequenceNumber: expected an integer from 0 to 1000000");
+    assert.include(errors[3], "envelope.tags: expected an object with string values");
+    assert.include(errors[3], "envelope.impressionId: missing");
+    assert.include(errors[3], "events[0]: expected an event");
+    assert.deepEqual(validatePayload([]), ["payload: expected an object"]);
+    done();
+  });
+
+  it("validates that envelopes of older versions can leave out the fields that newer versions always have", (done) => {
+    let olderEnvelope = {
+      clarityId: "c", impressionId: "i", url: "https://www.example.com/", version: "0.1.9", time: 10, sequenceNumber: 0
+    };
+    let newerEnvelope = { ...olderEnvelope, version: "0.10.0" };
+    let errors = validatePayload({ envelope: newerEnvelope, events: [] });
+    assert.deepEqual(validatePayload({ envelope: olderEnvelope, events: [] }), []);
+    assert.include(errors, "envelope.sessionId: missing");
+    assert.include(errors, "envelope.eventCount: missing");
+    done();
+  });
+
+  it("validates that the state of the event types that the server reads is checked, including compact events", (done) => {
+    let envelope = { clarityId: "c", impressionId: "i", url: "https://www.example.com/", version: "0.1.9", time: 10, sequenceNumber: 0 };
+    let events = [
+      { id: 0, time: 1, type: "Layout", state: { index: 1, source: 0, action: 0, layout: { x: 0, y: 0, width: "10", height: 10 } } },
+      { id: 1, time: 2, type: "Viewport", state: { viewport: null, document: { width: null, height: null }, event: "scroll" } },
+      { id: 2, time: 3, type: "Instrumentation", state: null },
+      { id: 3, time: 4, type: "Custom", state: null }
+    ];
+    let compactEvents = [[0, 1, 1, null, "click", null, "10"]];
+    let compactPayload = JSON.stringify(JSON.stringify({ envelope: { ...envelope, schema: 1 }, events: compactEvents }));
+    let errors = validatePayload({ envelope, events });
+    let compactErrors: string[] = [];
+    readUpload(compactPayload, "none", null, (error: Error) => { compactErrors.push(error.message); });
+
+    assert.deepEqual(errors, [
+      "events[0].state.layout: expected a rectangle or null",
+      "events[1].state.viewport: expected a rectangle",
+      "events[2].state: expected an object"
+    ]);
+    assert.equal(compactErrors.length, 1);
+    assert.include(compactErrors[0], "events[0].state.x: expected a number or null");
+    done();
+  });
+
+  it("validates that payloads are reassembled into ordered impression timelines with gaps and duplicates", (done) => {
+    // Payloads arrive out of order, one of them twice, and one of them never
+    let uploads = RecordedUploads.slice().reverse();
+    uploads.push(RecordedUploads[3]);
+    uploads.splice(uploads.indexOf(RecordedUploads[1]), 1);
+
+    readUploads(uploads, (payloads: IPayload[]) => {
+      let timelines = reassemble(payloads);
+      let first = timelines.filter((timeline: IImpressionTimeline) => timeline.ended)[0];
+      let second = timelines.filter((timeline: IImpressionTimeline) => !timeline.ended)[0];
+      let eventIds = first.events.map((evt: IEvent) => evt.id);
+
+      assert.equal(timelines.length, 2);
+      assert.deepEqual(first.envelopes.map((envelope: IEnvelope) => envelope.sequenceNumber), [0, 2, 3, 4]);
+      assert.deepEqual(first.missingSequenceNumbers, [1]);
+      assert.equal(first.duplicateCount, 1);
+      assert.deepEqual(eventIds, eventIds.slice().sort((a: number, b: number) => a - b));
+      assert.equal(first.events.length, first.envelopes.reduce((count: number, envelope: IEnvelope) => count + envelope.eventCount, 0));
+      assert.deepEqual(second.missingSequenceNumbers, []);
+      assert.equal(second.events[0].id, 0);
+      done();
+    });
+  });
+
+  it("validates that implausible sequence numbers are rejected and don't blow up the gaps of a timeline", (done) => {
+    readUploads(RecordedUploads.slice(0, 1), (payloads: IPayload[]) => {
+      let payload = payloads[0];
+      let farPayload: IPayload = JSON.parse(JSON.stringify(payload));
+      let craftedPayload: IPayload = JSON.parse(JSON.stringify(payload));
+      farPayload.envelope.sequenceNumber = 5000;
+      craftedPayload.envelope.sequenceNumber = 1e9;
+      let timeline = reassemble([payload, farPayload, craftedPayload])[0];
+
+      assert.include(validatePayload(craftedPayload).join(), "envelope.sequenceNumber: expected an integer from 0 to 1000000");
+      assert.deepEqual(validatePayload(farPayload).filter((error: string) => error.indexOf("sequenceNumber") >= 0), []);
+      assert.deepEqual(timeline.envelopes.map((envelope: IEnvelope) => envelope.sequenceNumber), [0, 5000, 1e9]);
+      assert.equal(timeline.missingSequenceNumbers.length, 103);
+      assert.deepEqual(timeline.missingSequenceNumbers.slice(0, 2), [1, 2]);
+      done();
+    });
+  });
+
+  // Gzip is decoded asynchronously, so uploads are read one after another to keep the order of payloads
+  function readUploads(uploads: IRecordedUpload[], callback: (payloads: IPayload[]) => void) {
+    let payloads: IPayload[] = [];
+    let readNext = () => {
+      if (payloads.length === uploads.length) {
+        callback(payloads);
+        return;
+      }
+
+      let upload = uploads[payloads.length];
+      readUpload(upload.body, upload.codec, upload.checksum, (error: Error, payload?: IPayload) => {
+        assert.isNull(error);
+        payloads.push(payload);
+        readNext();
+      });
+    };
+    readNext();
+  }
+});
@@ -0,0 +1,101 @@
+import computeChecksum from "../src/checksum";
+import { config } from "../src/config";
+import * as core from "../src/core";
+import uncompress from "../src/uncompress";
+import { cleanupFixture, getAllSentBytes, setupFixture, triggerSend } from "./utils";
+
+import * as chai from "chai";
+
+let assert = chai.assert;
+
+describe("Integrity Tests", () => {
+
+  beforeEach(setupFixture);
+  afterEach(cleanupFixture);
+
+  it("validates that uploads carry the checksum of their uncompressed body", (done) => {
+    let checksumHeaders: string[] = [];
+    spyOn(XMLHttpRequest.prototype, "setRequestHeader").and.callFake((header: string, value: string) => {
+      if (header === "X-Clarity-Checksum") {
+        checksumHeaders.push(value);
+      }
+    });
+    let bytesLengthBefore = getAllSentBytes().length;
+    core.addEvent("ChecksumTest", { text: "€uro 😀 ü" });
+    triggerSend();
+
+    let sentBytes = getAllSentBytes();
+    assert.equal(computeChecksum("The quick brown fox jumps over the lazy dog"), "414fa339");
+    assert.equal(computeChecksum("€uro 😀 ü"), "1bf84a3c");
+    assert.equal(sentBytes.length, bytesLengthBefore + 1);
+    assert.equal(checksumHeaders.length, 1);
+    assert.equal(checksumHeaders[0], computeChecksum(uncompress(JSON.parse(sentBytes[bytesLengthBefore]))));
+    done();
+  });
+
+  it("validates that envelopes describe the range of their events and the running event counts", (done) => {
+    core.addEvent("EventRangeTest", {});
+    triggerSend();
+    core.addEvent("EventRangeTest", {});
+    core.addEvent("EventRangeTest", {});
+    triggerSend();
+
+    let payloads: IPayload[] = getAllSentBytes().map((sentBytes: string) => JSON.parse(uncompress(JSON.parse(sentBytes))));
+    for (let i = 0; i < payloads.length; i++) {
+      let payloadEnvelope = payloads[i].envelope;
+      let events = payloads[i].events;
+      assert.equal(payloadEnvelope.eventCount, events.length);
+      assert.equal(payloadEnvelope.firstEventId, events[0].id);
+      assert.equal(payloadEnvelope.lastEventId, events[events.length - 1].id);
+      assert.equal(payloadEnvelope.emittedEventCount, payloadEnvelope.lastEventId + 1);
+      assert.equal(payloadEnvelope.deliveredEventCount, 0);
+      if (i > 0) {
+        assert.equal(payloadEnvelope.firstEventId, payloads[i - 1].envelope.lastEventId + 1);
+      }
+    }
+    assert.equal(payloads[payloads.length - 1].envelope.eventCount, 2);
+    done();
+  });
+
+  it("validates that the final payload lists delivered, pending and dropped payloads", (done) => {
+    let pendingCount = getAllSentBytes().length;
+    let failUpload = false;
+    let payloads: IPayload[] = [];
+    let checksums: string[] = [];
+    config.retryLimit = 0;
+    config.uploadHandler = (payload: string, onSuccess: UploadCallback, onFailure: UploadCallback, codec: string,
+                            checksum: string) => {
+      let uncompressed = uncompress(payload);
+      payloads.push(JSON.parse(uncompressed));
+      checksums.push(checksum === computeChecksum(uncompressed) ? checksum : null);
+      if (failUpload) {
+        onFailure(500);
+      } else {
+        onSuccess(200);
+      }
+    };
+
+    core.addEvent("ManifestTest", {});
+    triggerSend();
+    failUpload = true;
+    core.addEvent("ManifestTest", {});
+    triggerSend();
+    failUpload = false;
+    core.addEvent("ManifestTest", {});
+    triggerSend();
+    core.teardown();
+
+    let finalPayload = payloads[payloads.length - 1];
+    let finalEnvelope = finalPayload.envelope;
+    assert.equal(payloads.length, 4);
+    assert.notInclude(checksums, null);
+    assert.isUndefined(payloads[2].envelope.manifest);
+    assert.equal(finalEnvelope.deliveredEventCount, payloads[0].envelope.eventCount + payloads[2].envelope.eventCount);
+    assert.deepEqual(finalEnvelope.manifest, {
+      delivered: [[pendingCount, pendingCount], [pendingCount + 2, pendingCount + 2]],
+      pending: [[0, pendingCount - 1]],
+      dropped: [[pendingCount + 1, pendingCount + 1]]
+    });
+    done();
+  });
+});
@@ -1,7 +1,7 @@
 import { config } from "../src/config";
 import * as core from "../src/core";
 import { NodeIndex } from "../src/plugins/layout/stateprovider";
-import uncompress from "./uncompress";
+import uncompress from "../src/uncompress";
 import { cleanupFixture, getEventsByType, observeEvents, setupFixture, triggerSend } from "./utils";
 
 import * as chai from "chai";
@@ -654,4 +654,68 @@ describe("Layout Tests", () => {
       done();
     }
   });
+
+  it("checks that mutations during the pause are captured as a compact diff on resume", (done) => {
+    let stopObserving = observeEvents(eventName);
+    let clarityElement = document.getElementById("clarity");
+    core.pauseRecording();
+
+    // Add a node, add and remove a temporary node and update an existing node while recording is paused
+    let div = document.createElement("div");
+    let temporarySpan = document.createElement("span");
+    document.body.appendChild(div);
+    document.body.appendChild(temporarySpan);
+    document.body.removeChild(temporarySpan);
+    clarityElement.setAttribute("data-paused", "true");
+    triggerSend();
+    assert.equal(stopObserving().length, 0);
+
+    core.resumeRecording();
+    let events = stopObserving();
+    assert.equal(events.length, 2);
+    assert.equal(events[0].state.tag, "DIV");
+    assert.equal(events[0].state.action, Action.Insert);
+    assert.equal(events[0].state.source, Source.Resume);
+    assert.equal(events[1].state.index, clarityElement[NodeIndex]);
+    assert.equal(events[1].state.action, Action.Update);
+    assert.equal(events[1].state.attributes["data-paused"], "true");
+    assert.equal(events[1].state.source, Source.Resume);
+    done();
+  });
+
+  it("checks that elements scrolled and inputs changed during the pause are captured on resume", (done) => {
+    let scrollable = document.createElement("div");
+    let input = document.createElement("input");
+    scrollable.style.overflowY = "auto";
+    document.body.appendChild(scrollable);
+    document.body.appendChild(input);
+
+    // Observer delivers the insertions asynchronously, so they are recorded right before the pause
+    let stopObserving = observeEvents(eventName);
+    core.pauseRecording();
+    Object.defineProperty(scrollable, "scrollTop", { value: 100 });
+    triggerEvent(scrollable, "scroll");
+    input.value = "changed";
+    triggerEvent(input, "change");
+    triggerSend();
+    let pausedEvents = stopObserving();
+
+    core.resumeRecording();
+    let events = stopObserving().slice(pausedEvents.length);
+    assert.isTrue(pausedEvents.every((evt: IEvent) => evt.state.action === Action.Insert));
+    assert.equal(events.length, 2);
+    assert.equal(events[0].state.index, scrollable[NodeIndex]);
+    assert.equal(events[0].state.layout.scrollY, 100);
+    assert.equal(events[0].state.source, Source.Resume);
+    assert.equal(events[1].state.index, input[NodeIndex]);
+    assert.equal(events[1].state.attributes.value, "changed");
+    assert.equal(events[1].state.source, Source.Resume);
+    done();
+  });
+
+  function triggerEvent(target: EventTarget, type: string) {
+    let evt = document.createEvent("Event");
+    evt.initEvent(type, false, false);
+    target.dispatchEvent(evt);
+  }
 });
@@ -0,0 +1,199 @@
+import { configure, registerPlugin, start, stop } from "../src/clarity";
+import { config, getPluginOptions } from "../src/config";
+import { getNodeIndex } from "../src/plugins/layout/stateprovider";
+import { cleanupFixture, createPluginClass, getEventsByType, observeEvents, setupFixture } from "./utils";
+
+import * as chai from "chai";
+
+let assert = chai.assert;
+
+describe("Plugin Tests", () => {
+
+  beforeEach(setupFixture);
+  afterEach(cleanupFixture);
+
+  it("validates that a plugin registered after start runs in the recorders that list it, through its context", (done) => {
+    let pluginName = "contexttest";
+    let stopObserving = observeEvents();
+    configure({ plugins: config.plugins.concat([pluginName]) });
+    let registered = registerPlugin(pluginName, createPluginClass(pluginName));
+    let fixtureElement = document.getElementById("clarity");
+    let pluginEvent = document.createEvent("Event");
+    pluginEvent.initEvent(pluginName, true, false);
+    fixtureElement.dispatchEvent(pluginEvent);
+
+    let events = getEventsByType(stopObserving(), pluginName);
+    assert.isTrue(registered);
+    assert.equal(events.length, 2);
+    assert.equal(events[0].state.action, "activate");
+    assert.equal(events[1].state.action, pluginName);
+    assert.equal(events[1].state.index, getNodeIndex(fixtureElement));
+    assert.isNotNull(events[1].state.index);
+
+    // Plugin that stops has its bindings removed along with it
+    stopObserving = observeEvents();
+    configure({ plugins: config.plugins.filter((plugin: string) => plugin !== pluginName) });
+    fixtureElement.dispatchEvent(pluginEvent);
+    assert.equal(getEventsByType(stopObserving(), pluginName).length, 0);
+    done();
+  });
+
+  it("validates that plugins with a taken name or without the plugin interface are rejected", (done) => {
+    let pluginName = "collisiontest";
+    let stopObserving = observeEvents();
+    let results = [
+      registerPlugin(pluginName, createPluginClass(pluginName)),
+      registerPlugin(pluginName, createPluginClass(pluginName)),
+      registerPlugin("layout", createPluginClass("layout")),
+      registerPlugin("invalidtest", {} as IPluginClass)
+    ];
+
+    let rejections = getEventsByType(stopObserving(), "Instrumentation").filter(
+      (evt: IEvent) => evt.state.type === Instrumentation.PluginRejected);
+    assert.deepEqual(results, [true, false, false, false]);
+    assert.deepEqual(rejections.map((evt: IEvent) => evt.state.name), [pluginName, "layout", "invalidtest"]);
+    assert.include(rejections[0].state.reason, "already taken");
+    done();
+  });
+
+  it("validates that plugins receive their options on reset, with the defaults of the options that are left out", (done) => {
+    let pluginName = "optionstest";
+    let stopObserving = observeEvents();
+    configure({
+      plugins: config.plugins.concat([pluginName]),
+      pluginOptions: { pointer: { timeThreshold: 0 }, optionstest: { label: "test" } }
+    });
+    registerPlugin(pluginName, createPluginClass(pluginName));
+
+    let events = getEventsByType(stopObserving(), pluginName);
+    assert.deepEqual(getPluginOptions("pointer"), { distanceThreshold: 20, timeThreshold: 0 });
+    assert.deepEqual(getPluginOptions("layout"), { distanceThreshold: 5 });
+    assert.equal(events.length, 1);
+    assert.deepEqual(events[0].state.options, { label: "test" });
+    done();
+  });
+
+  it("validates that plugins that aren't registered are reported, and start once they are registered", (done) => {
+    let pluginName = "unregisteredtest";
+    let stopObserving = observeEvents();
+    configure({ plugins: config.plugins.concat([pluginName]) });
+    registerPlugin(pluginName, createPluginClass(pluginName));
+
+    let events = stopObserving();
+    let rejections = getEventsByType(events, "Instrumentation").filter(
+      (evt: IEvent) => evt.state.type === Instrumentation.PluginRejected);
+    assert.deepEqual(rejections.map((evt: IEvent) => evt.state.name), [pluginName]);
+    assert.include(rejections[0].state.reason, "isn't registered");
+    assert.equal(getEventsByType(events, pluginName).length, 1);
+    done();
+  });
+
+  it("validates that plugins start after their dependencies, and are rejected without them", (done) => {
+    let stopObserving = observeEvents();
+    registerPlugin("dependenttest", createPluginClass("dependenttest", ["dependencytest"]));
+    registerPlugin("dependencytest", createPluginClass("dependencytest"));
+    registerPlugin("cycletest", createPluginClass("cycletest", ["cycletest"]));
+    configure({ plugins: config.plugins.concat(["dependenttest", "dependencytest", "cycletest"]) });
+    configure({ plugins: config.plugins.filter((plugin: string) => plugin !== "layout") });
+
+    let events = stopObserving();
+    let activations = events.filter((evt: IEvent) => evt.state.action === "activate").map((evt: IEvent) => evt.type);
+    let rejections = getEventsByType(events, "Instrumentation").filter(
+      (evt: IEvent) => evt.state.type === Instrumentation.PluginRejected);
+    assert.deepEqual(activations, ["dependencytest", "dependenttest"]);
+    assert.deepEqual(rejections.map((evt: IEvent) => evt.state.name), ["cycletest", "pointer"]);
+    assert.include(rejections[0].state.reason, "depends on it in turn");
+    assert.include(rejections[1].state.reason, "layout");
+    done();
+  });
+
+  it("validates that a plugin that fails to start is quarantined, while the plugins after it still start", (done) => {
+    let failingClass = createPluginClass("failingstarttest");
+    failingClass.prototype.activate = () => { throw new Error("Activation failed"); };
+    registerPlugin("failingstarttest", failingClass);
+    registerPlugin("healthystarttest", createPluginClass("healthystarttest"));
+    config.plugins = ["failingstarttest", "healthystarttest"].concat(config.plugins);
+    stop();
+    let stopObserving = observeEvents();
+    start();
+
+    let events = stopObserving();
+    let failures = getEventsByType(events, "Instrumentation").filter(
+      (evt: IEvent) => evt.state.type === Instrumentation.PluginFailed);
+    assert.equal(getEventsByType(events, "healthystarttest").length, 1);
+    assert.isAbove(getEventsByType(events, "Layout").length, 0);
+    assert.equal(failures.length, 1);
+    assert.equal(failures[0].state.name, "failingstarttest");
+    assert.equal(failures[0].state.stage, "activate");
+    assert.equal(failures[0].state.message, "Activation failed");
+    assert.isString(failures[0].state.stack);
+    assert.isTrue(failures[0].state.quarantined);
+    done();
+  });
+
+  it("validates that a plugin whose listeners keep throwing is quarantined, while the others keep recording", (done) => {
+    let pluginName = "failinglistenertest";
+    registerPlugin(pluginName, createPluginClass(pluginName, [], () => { throw new Error("Listener failed"); }));
+    registerPlugin("healthylistenertest", createPluginClass("healthylistenertest"));
+    let stopObserving = observeEvents();
+    configure({ plugins: config.plugins.concat([pluginName, "healthylistenertest"]), pluginErrorLimit: 2 });
+    for (let i = 0; i < 3; i++) {
+      for (let eventName of [pluginName, "healthylistenertest"]) {
+        let pluginEvent = document.createEvent("Event");
+        pluginEvent.initEvent(eventName, true, false);
+        document.dispatchEvent(pluginEvent);
+      }
+    }
+
+    let events = stopObserving();
+    let failures = getEventsByType(events, "Instrumentation").filter(
+      (evt: IEvent) => evt.state.type === Instrumentation.PluginFailed);
+    assert.deepEqual(failures.map((evt: IEvent) => evt.state.stage), ["listener", "listener"]);
+    assert.deepEqual(failures.map((evt: IEvent) => evt.state.quarantined), [false, true]);
+    assert.equal(failures[1].state.errorCount, 2);
+    assert.equal(getEventsByType(events, "healthylistenertest").length, 4);
+    done();
+  });
+
+  it("validates that plugins depending on a quarantined plugin stop along with it", (done) => {
+    let pluginName = "quarantineddependencytest";
+    let dependentName = "quarantineddependenttest";
+    registerPlugin(pluginName, createPluginClass(pluginName, [], () => { throw new Error("Listener failed"); }));
+    registerPlugin(dependentName, createPluginClass(dependentName, [pluginName]));
+    configure({ plugins: config.plugins.concat([pluginName, dependentName]), pluginErrorLimit: 1 });
+    let stopObserving = observeEvents();
+    for (let eventName of [pluginName, dependentName]) {
+      let pluginEvent = document.createEvent("Event");
+      pluginEvent.initEvent(eventName, true, false);
+      document.dispatchEvent(pluginEvent);
+    }
+
+    let events = stopObserving();
+    let rejections = getEventsByType(events, "Instrumentation").filter(
+      (evt: IEvent) => evt.state.type === Instrumentation.PluginRejected);
+    assert.equal(getEventsByType(events, dependentName).length, 0);
+    assert.deepEqual(rejections.map((evt: IEvent) => evt.state.name), [dependentName]);
+    assert.include(rejections[0].state.reason, pluginName);
+    done();
+  });
+
+  it("validates that exceptions in the timers of a plugin are handled like the ones in its listeners", (done) => {
+    let pluginName = "failingtimertest";
+    registerPlugin(pluginName, createPluginClass(pluginName, [], (evt: Event, context: IPluginContext) => {
+      context.setTimeout(() => { throw new Error("Timer failed"); }, 0);
+    }));
+    configure({ plugins: config.plugins.concat([pluginName]) });
+    let stopObserving = observeEvents();
+    let pluginEvent = document.createEvent("Event");
+    pluginEvent.initEvent(pluginName, true, false);
+    document.dispatchEvent(pluginEvent);
+    jasmine.clock().tick(1);
+
+    let failures = getEventsByType(stopObserving(), "Instrumentation").filter(
+      (evt: IEvent) => evt.state.type === Instrumentation.PluginFailed);
+    assert.equal(failures.length, 1);
+    assert.equal(failures[0].state.stage, "callback");
+    assert.equal(failures[0].state.message, "Timer failed");
+    done();
+  });
+});
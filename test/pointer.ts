@@ -1,6 +1,6 @@
 import { config } from "../src/config";
 import * as core from "../src/core";
-import uncompress from "./uncompress";
+import uncompress from "../src/uncompress";
 import { cleanupFixture, observeEvents, setupFixture, triggerSend } from "./utils";
 
 import * as chai from "chai";
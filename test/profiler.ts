@@ -0,0 +1,86 @@
+import { configure, registerPlugin, stop } from "../src/clarity";
+import { config } from "../src/config";
+import { createProfilerState, measure, takeProfile } from "../src/profiler";
+import { cleanupFixture, createPluginClass, getAllSentEvents, getEventsByType, observeEvents, setupFixture, triggerSend } from "./utils";
+
+import * as chai from "chai";
+
+let assert = chai.assert;
+
+describe("Profiler Tests", () => {
+
+  beforeEach(setupFixture);
+  afterEach(cleanupFixture);
+
+  it("validates that nested calls are counted once towards the overall time and the time of their group", (done) => {
+    let fakeTime = 0;
+    spyOn(performance, "now").and.callFake(() => fakeTime);
+    let state = createProfilerState();
+    measure(state, "layout", () => {
+      fakeTime += 2;
+      measure(state, "layout.consistency", () => { fakeTime += 3; });
+      measure(state, "serialize", () => { fakeTime += 1; });
+    });
+    measure(state, "layout.mutations", () => { fakeTime += 4; });
+    fakeTime += 10;
+
+    let profile = takeProfile(state);
+    assert.equal(profile.duration, 20);
+    assert.equal(profile.totalTime, 10);
+    assert.equal(profile.maxTime, 6);
+    assert.deepEqual(profile.subsystems["layout"], { totalTime: 6, maxTime: 6, count: 1 });
+    assert.deepEqual(profile.subsystems["layout.consistency"], { totalTime: 3, maxTime: 3, count: 1 });
+    assert.deepEqual(profile.groups, { layout: 10, serialize: 1 });
+    assert.isNull(takeProfile(state));
+    done();
+  });
+
+  it("validates that the heaviest plugin is suspended over the CPU budget, while the others keep recording", (done) => {
+    let fakeTime = performance.now();
+    spyOn(performance, "now").and.callFake(() => fakeTime);
+    let pluginName = "heavytest";
+    registerPlugin(pluginName, createPluginClass(pluginName, [], (evt: Event, context: IPluginContext) => {
+      fakeTime += 1000;
+      context.addEvent(pluginName, { action: evt.type });
+    }));
+    registerPlugin("lighttest", createPluginClass("lighttest"));
+    let stopObserving = observeEvents();
+    configure({ plugins: config.plugins.concat([pluginName, "lighttest"]), cpuBudget: 100 });
+    triggerPluginEvents([pluginName]);
+    jasmine.clock().tick(config.profileReportInterval);
+    triggerPluginEvents(["lighttest", pluginName]);
+
+    let events = stopObserving();
+    let isRecorded = (evt: IEvent) => evt.state.action !== "activate";
+    let reports = getEventsByType(events, "Instrumentation").filter(
+      (evt: IEvent) => evt.state.type === Instrumentation.Profile);
+    let heavyTime = reports[0].state.profile.groups[pluginName];
+    assert.equal(reports[0].state.suspendedPlugin, pluginName);
+    assert.isAtLeast(heavyTime, 1000);
+    assert.isAtLeast(reports[0].state.profile.totalTime, heavyTime);
+    assert.isAtLeast(reports[0].state.profile.subsystems[pluginName].maxTime, 1000);
+    assert.equal(getEventsByType(events, pluginName).filter(isRecorded).length, 1);
+    assert.equal(getEventsByType(events, "lighttest").filter(isRecorded).length, 1);
+    done();
+  });
+
+  it("validates that impressions shorter than the profile report interval report their profile when they end", (done) => {
+    let isProfile = (evt: IEvent) => evt.state.type === Instrumentation.Profile;
+    let reportCount = getEventsByType(getAllSentEvents(), "Instrumentation").filter(isProfile).length;
+    triggerSend();
+    stop();
+
+    let reports = getEventsByType(getAllSentEvents(), "Instrumentation").filter(isProfile);
+    assert.equal(reports.length, reportCount + 1);
+    assert.isAbove(reports[reports.length - 1].state.profile.totalTime, 0);
+    done();
+  });
+
+  function triggerPluginEvents(eventNames: string[]) {
+    for (let eventName of eventNames) {
+      let pluginEvent = document.createEvent("Event");
+      pluginEvent.initEvent(eventName, true, false);
+      document.dispatchEvent(pluginEvent);
+    }
+  }
+});
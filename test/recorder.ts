@@ -0,0 +1,97 @@
+import { create, stop } from "../src/clarity";
+import { config } from "../src/config";
+import { ClarityAttribute } from "../src/core";
+import uncompress from "../src/uncompress";
+import { cleanupFixture, getEventsByType, setupFixture, triggerSend } from "./utils";
+
+import * as chai from "chai";
+
+let assert = chai.assert;
+
+describe("Recorder Tests", () => {
+  let recorders: IRecorder[];
+
+  beforeEach(() => {
+    recorders = [];
+    setupFixture();
+  });
+
+  afterEach(() => {
+    for (let recorder of recorders) {
+      recorder.stop();
+    }
+    cleanupFixture();
+  });
+
+  it("validates that recorders on separate subtrees record and upload independently", (done) => {
+    // Default instance records the whole document, so it has to step aside first
+    stop();
+    let clarityPayloads: IPayload[] = [];
+    let backupPayloads: IPayload[] = [];
+    let clarityRecorder = createRecorder(document.getElementById("clarity"), clarityPayloads);
+    let backupRecorder = createRecorder(document.getElementById("backup"), backupPayloads);
+    clarityRecorder.start();
+    backupRecorder.start();
+    triggerSend();
+
+    let clarityEvents = getEvents(clarityPayloads);
+    let backupEvents = getEventsByType(getEvents(backupPayloads), "Layout");
+    assert.isAbove(getEventsByType(clarityEvents, "Layout").length, 1);
+    assert.equal(backupEvents.length, 1);
+    assert.equal(backupEvents[0].state.tag, "DIV");
+    assert.equal(clarityPayloads[0].envelope.sequenceNumber, 0);
+    assert.equal(backupPayloads[0].envelope.sequenceNumber, 0);
+    assert.notEqual(clarityPayloads[0].envelope.impressionId, backupPayloads[0].envelope.impressionId);
+
+    let observer = new MutationObserver(callback);
+    observer.observe(document, { childList: true, subtree: true });
+    let clarityPayloadCount = clarityPayloads.length;
+    let backupPayloadCount = backupPayloads.length;
+    document.getElementById("backup").appendChild(document.createElement("span"));
+
+    function callback() {
+      observer.disconnect();
+      triggerSend();
+
+      let newBackupEvents = getEventsByType(getEvents(backupPayloads.slice(backupPayloadCount)), "Layout");
+      let newClarityEvents = getEventsByType(getEvents(clarityPayloads.slice(clarityPayloadCount)), "Layout");
+      assert.equal(newBackupEvents.length, 1);
+      assert.equal(newBackupEvents[0].state.tag, "SPAN");
+      assert.equal(newClarityEvents.length, 0);
+      done();
+    }
+  });
+
+  it("validates that recorder doesn't start on a part of the page that is already being recorded", (done) => {
+    let payloads: IPayload[] = [];
+    let recorder = createRecorder(document.getElementById("clarity"), payloads);
+    recorder.start();
+    triggerSend();
+
+    let events = getEventsByType(getEvents(payloads), "Instrumentation");
+    assert.equal(events.length, 2);
+    assert.equal(events[0].state.type, Instrumentation.ClarityDuplicated);
+    assert.equal(events[0].state.currentImpressionId, document[ClarityAttribute]);
+    assert.equal(events[1].state.type, Instrumentation.Teardown);
+    assert.equal(getEventsByType(getEvents(payloads), "Layout").length, 0);
+    done();
+  });
+
+  function createRecorder(root: Node, payloads: IPayload[]): IRecorder {
+    let uploadHandler: UploadHandler = (payload: string, onSuccess?: UploadCallback) => {
+      payloads.push(JSON.parse(uncompress(payload)));
+      onSuccess(200);
+    };
+    let recorder = create({ root, uploadHandler, instrument: true, delay: config.delay });
+    recorders.push(recorder);
+    return recorder;
+  }
+
+  function getEvents(payloads: IPayload[]): IEvent[] {
+    let events: IEvent[] = [];
+    for (let payload of payloads) {
+      events = events.concat(payload.events);
+    }
+    return events;
+  }
+});
@@ -0,0 +1,97 @@
+import { off, on, start, stop } from "../src/clarity";
+import { config } from "../src/config";
+import * as core from "../src/core";
+import { readRemoteConfig } from "../src/remoteconfig";
+import { getSentBytes } from "./testsetup";
+import { cleanupFixture, getEventsByType, observeEvents, setupFixture, triggerMockEvent, triggerSend } from "./utils";
+
+import * as chai from "chai";
+
+let assert = chai.assert;
+let remoteConfigUrl = "https://www.claritytest.com/config";
+
+describe("Remote Config Tests", () => {
+  let sendSpy: jasmine.Spy;
+
+  beforeEach(setupFixture);
+  beforeEach(() => {
+    // Remote config request is sent without a body, so only the uploads are kept for the tests to read
+    sendSpy = spyOn(XMLHttpRequest.prototype, "send").and.callFake((data?: any) => {
+      if (data) {
+        getSentBytes().push(data);
+      }
+    });
+  });
+  afterEach(cleanupFixture);
+  afterEach(() => { localStorage.removeItem("clarity-remote-config"); });
+
+  it("validates that recording starts with the requested document, and with its last valid copy once the request times out", (done) => {
+    let showText = config.showText;
+    stop();
+    config.remoteConfigUrl = remoteConfigUrl;
+    start();
+    let waitingState = core.state;
+    respondToRemoteConfigRequest(200, JSON.stringify({ showText: !showText, plugins: ["viewport", "layout"], newerSetting: 1 }));
+    assert.equal(waitingState, State.Unloaded);
+    assert.equal(core.state, State.Activated);
+    assert.equal(config.showText, !showText);
+    assert.deepEqual(config.plugins, ["viewport", "layout"]);
+
+    stop();
+    config.showText = showText;
+    let stopObserving = observeEvents();
+    start();
+    jasmine.clock().tick(config.remoteConfigTimeout);
+
+    let rejections = getEventsByType(stopObserving(), "Instrumentation").filter(
+      (evt: IEvent) => evt.state.type === Instrumentation.RemoteConfigRejected);
+    assert.equal(core.state, State.Activated);
+    assert.equal(config.showText, !showText);
+    assert.equal(rejections.length, 1);
+    assert.equal(rejections[0].state.source, "request");
+    assert.include(rejections[0].state.reason, "timed out");
+    done();
+  });
+
+  it("validates that invalid documents in upload responses are reported, while the kill switch stops recording for good", (done) => {
+    let responses = ["OK", JSON.stringify({ remoteConfig: { sampleRate: 2 } })];
+    let rejections: IEvent[] = [];
+    let onInstrumentation = (evt: IEvent) => {
+      if (evt.state.type === Instrumentation.RemoteConfigRejected) {
+        rejections.push(evt);
+      }
+    };
+    on("Instrumentation", onInstrumentation);
+    config.remoteConfigUrl = remoteConfigUrl;
+    config.uploadHandler = (payload: string, onSuccess: UploadCallback) => { onSuccess(200, null, responses.shift()); };
+    triggerMockEvent();
+    triggerMockEvent();
+    triggerSend();
+    let invalidState = core.state;
+
+    responses = [JSON.stringify({ remoteConfig: { disabled: true } })];
+    triggerMockEvent();
+    let disabledState = core.state;
+    stop();
+    start();
+    respondToRemoteConfigRequest(500, "");
+    off("Instrumentation", onInstrumentation);
+
+    assert.equal(invalidState, State.Activated);
+    assert.equal(rejections.length, 1);
+    assert.equal(rejections[0].state.source, "upload");
+    assert.include(rejections[0].state.reason, "sampleRate");
+    assert.equal(disabledState, State.Unloaded);
+    assert.isTrue(readRemoteConfig(remoteConfigUrl).disabled);
+    assert.equal(core.state, State.Unloaded);
+    done();
+  });
+
+  function respondToRemoteConfigRequest(status: number, responseText: string) {
+    let request: XMLHttpRequest = sendSpy.calls.all().filter((call: jasmine.CallInfo) => call.args.length === 0).pop().object;
+    Object.defineProperty(request, "readyState", { value: XMLHttpRequest.DONE });
+    Object.defineProperty(request, "status", { value: status });
+    Object.defineProperty(request, "responseText", { value: responseText });
+    request.onreadystatechange(null);
+  }
+});
@@ -0,0 +1,98 @@
+import { config } from "../src/config";
+import * as core from "../src/core";
+import { decodeEvent, decodePayload } from "../src/decoder";
+import { encodeEvent, Schema } from "../src/schema";
+import uncompress from "../src/uncompress";
+import { activateCore, cleanupFixture, getAllSentBytes, getAllSentEvents, getEventsByType, setupFixture } from "./utils";
+
+import * as chai from "chai";
+
+let assert = chai.assert;
+
+describe("Schema Tests", () => {
+
+  beforeEach(setupFixture);
+  afterEach(cleanupFixture);
+
+  it("validates that events are encoded as positional arrays without default values and decoded back", (done) => {
+    let pointerEvent: IEvent = {
+      id: 7,
+      time: 120,
+      type: "Pointer",
+      state: {
+        index: 1, event: "mousemove", pointer: "mouse", x: 10, y: 20, width: 1, height: 1,
+        pressure: 1, tiltX: 0, tiltY: 0, target: 5, buttons: 0
+      }
+    };
+    let layoutEvent: IEvent = {
+      id: 8,
+      time: 121,
+      type: "Layout",
+      state: {
+        index: 3, parent: 2, previous: null, next: null, source: Source.Mutation, action: Action.Insert,
+        tag: "DIV", mutationSequence: 4, attributes: { id: "clarity" }, layout: { x: 0, y: 10, width: 400, height: 50 }
+      }
+    };
+
+    let compactPointer = encodeEvent(pointerEvent);
+    let compactLayout = encodeEvent(layoutEvent);
+    assert.deepEqual(compactPointer, [7, 120, 1, null, "mousemove", null, 10, 20, null, null, null, null, null, 5]);
+    assert.deepEqual(compactLayout, [8, 121, 0, 3, null, Source.Mutation, 2, null, null, "DIV", 4, { id: "clarity" }, [0, 10, 400, 50]]);
+    assert.deepEqual(decodeEvent(compactPointer, Schema), pointerEvent);
+    assert.deepEqual(decodeEvent(compactLayout, Schema), layoutEvent);
+    done();
+  });
+
+  it("validates that layouts with a scroll position are encoded as positional arrays and decoded back", (done) => {
+    let scrollLayoutEvent: IEvent = {
+      id: 9,
+      time: 122,
+      type: "Layout",
+      state: {
+        index: 4, parent: 3, previous: null, next: null, source: Source.Scroll, action: Action.Update,
+        tag: "DIV", attributes: {}, layout: { x: 0, y: 10, width: 400, height: 50, scrollX: 0, scrollY: 120 }
+      }
+    };
+
+    let compactEvent = encodeEvent(scrollLayoutEvent);
+    assert.deepEqual(compactEvent, [9, 122, 0, 4, Action.Update, Source.Scroll, 3, null, null, "DIV", null, {}, [0, 10, 400, 50, 0, 120]]);
+    assert.deepEqual(decodeEvent(compactEvent, Schema), scrollLayoutEvent);
+    done();
+  });
+
+  it("validates that events which don't fit the schema keep their state object", (done) => {
+    let customEvent: IEvent = { id: 1, time: 10, type: "Custom", state: { value: 1 } };
+    let unknownFieldEvent: IEvent = { id: 2, time: 11, type: "Viewport", state: { dpi: 2, extra: true } };
+    let nullLayoutEvent: IEvent = {
+      id: 3,
+      time: 12,
+      type: "Layout",
+      state: { index: 3, parent: 2, previous: null, next: null, source: 0, action: 0, tag: "DIV", attributes: {}, layout: null }
+    };
+
+    for (let evt of [customEvent, unknownFieldEvent, nullLayoutEvent]) {
+      let compactEvent = encodeEvent(evt);
+      assert.deepEqual(compactEvent, [evt.id, evt.time, evt.type, evt.state]);
+      assert.deepEqual(decodeEvent(compactEvent, Schema), evt);
+    }
+    done();
+  });
+
+  it("validates that compact payloads name the schema version and are smaller than regular ones", (done) => {
+    let regularPayload: IPayload = JSON.parse(uncompress(JSON.parse(getAllSentBytes()[0])));
+    core.teardown();
+    config.compactEvents = true;
+    activateCore();
+
+    let compactPayload: IPayload = JSON.parse(uncompress(JSON.parse(getAllSentBytes()[0])));
+    let regularLayoutEvents = getEventsByType(regularPayload.events, "Layout");
+    let decodedLayoutEvents = getEventsByType(decodePayload(compactPayload).events, "Layout");
+    assert.equal(compactPayload.envelope.schema, Schema.version);
+    assert.isTrue(Array.isArray(compactPayload.events[0]));
+    assert.isBelow(JSON.stringify(compactPayload.events).length, JSON.stringify(regularPayload.events).length / 2);
+    assert.equal(decodedLayoutEvents.length, regularLayoutEvents.length);
+    assert.deepEqual(decodedLayoutEvents[1].state, regularLayoutEvents[1].state);
+    assert.equal(getEventsByType(getAllSentEvents(), "Layout").length, regularLayoutEvents.length);
+    done();
+  });
+});
@@ -0,0 +1,103 @@
+import { config } from "../src/config";
+import * as core from "../src/core";
+import uncompress from "../src/uncompress";
+import { activateCore, cleanupFixture, getAllSentBytes, setupFixture, triggerMockEvent } from "./utils";
+
+import * as chai from "chai";
+
+let assert = chai.assert;
+
+describe("Session Tests", () => {
+  let storageKey = "clarity-session";
+
+  beforeEach(() => {
+    localStorage.removeItem(storageKey);
+    setupFixture();
+    jasmine.clock().mockDate(new Date());
+  });
+  afterEach(cleanupFixture);
+
+  it("validates that page loads of the same session share sessionId and count pages", (done) => {
+    let firstEnvelope = getLastEnvelope();
+    core.teardown();
+    activateCore();
+    let secondEnvelope = getLastEnvelope();
+
+    assert.isString(firstEnvelope.sessionId);
+    assert.equal(firstEnvelope.pageNumber, 1);
+    assert.equal(secondEnvelope.sessionId, firstEnvelope.sessionId);
+    assert.equal(secondEnvelope.pageNumber, 2);
+    done();
+  });
+
+  it("validates that page joins the session started in another tab", (done) => {
+    let now = new Date().getTime();
+    let sharedSession: ISessionState = {
+      id: "SharedSessionId",
+      start: now,
+      lastActive: now,
+      pages: 3
+    };
+    core.teardown();
+    localStorage.setItem(storageKey, JSON.stringify(sharedSession));
+    activateCore();
+
+    let sessionEnvelope = getLastEnvelope();
+    assert.equal(sessionEnvelope.sessionId, sharedSession.id);
+    assert.equal(sessionEnvelope.pageNumber, 4);
+    done();
+  });
+
+  it("validates that session rolls over after inactivity timeout while the page stays open", (done) => {
+    let firstEnvelope = getLastEnvelope();
+    jasmine.clock().tick(config.sessionTimeout + 1);
+    triggerMockEvent();
+    let secondEnvelope = getLastEnvelope();
+
+    assert.notEqual(secondEnvelope.sessionId, firstEnvelope.sessionId);
+    assert.equal(secondEnvelope.pageNumber, 1);
+    assert.equal(secondEnvelope.impressionId, firstEnvelope.impressionId);
+    done();
+  });
+
+  it("validates that session rolls over once it exceeds the maximum duration despite activity", (done) => {
+    let firstEnvelope = getLastEnvelope();
+    config.sessionMaxDuration = config.sessionTimeout * 2;
+
+    // Keep the session active by recording events every half of the inactivity timeout
+    for (let i = 0; i < 3; i++) {
+      jasmine.clock().tick(config.sessionTimeout / 2);
+      triggerMockEvent();
+      assert.equal(getLastEnvelope().sessionId, firstEnvelope.sessionId);
+    }
+    for (let i = 0; i < 2; i++) {
+      jasmine.clock().tick(config.sessionTimeout / 2);
+      triggerMockEvent();
+    }
+
+    assert.notEqual(getLastEnvelope().sessionId, firstEnvelope.sessionId);
+    done();
+  });
+
+  it("validates that session is kept within the page, where storage reads nothing and writes fail", (done) => {
+    // Safari's private mode returns null from getItem, while setItem throws
+    core.teardown();
+    spyOn(Storage.prototype, "getItem").and.returnValue(null);
+    spyOn(Storage.prototype, "setItem").and.throwError("QuotaExceededError");
+    activateCore();
+    let firstEnvelope = getLastEnvelope();
+    core.teardown();
+    activateCore();
+    let secondEnvelope = getLastEnvelope();
+
+    assert.equal(secondEnvelope.sessionId, firstEnvelope.sessionId);
+    assert.equal(secondEnvelope.pageNumber, firstEnvelope.pageNumber + 1);
+    done();
+  });
+
+  function getLastEnvelope(): IEnvelope {
+    let sentBytes = getAllSentBytes();
+    let payload: IPayload = JSON.parse(uncompress(JSON.parse(sentBytes[sentBytes.length - 1])));
+    return payload.envelope;
+  }
+});
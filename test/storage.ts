@@ -0,0 +1,143 @@
+import compress from "../src/compress";
+import { config } from "../src/config";
+import * as core from "../src/core";
+import { claimStoredPayloads, storePayload } from "../src/storage";
+import uncompress from "../src/uncompress";
+import { activateCore, cleanupFixture, setupFixture, triggerMockEvent } from "./utils";
+
+import * as chai from "chai";
+
+let assert = chai.assert;
+
+describe("Payload Storage Tests", () => {
+  let mockImpressionId = "StoredImpression";
+
+  beforeEach(setupFixture);
+  afterEach(cleanupFixture);
+
+  it("validates that undelivered payload is kept in the storage", (done) => {
+    config.storageLimit = 1024 * 1024;
+    config.uploadHandler = (payload: string, onSuccess: UploadCallback, onFailure?: UploadCallback) => {
+      onFailure(500);
+    };
+    triggerMockEvent();
+
+    // Payload is left to the next page load once this one is closed, while its retry on unload never completes
+    config.uploadHandler = () => { return; };
+    core.teardown();
+    claimStoredPayloads((payloads: IDroppedPayloadInfo[]) => {
+      let sentPayload: IPayload = JSON.parse(uncompress(payloads[0].payload));
+      assert.equal(payloads.length, 1);
+      assert.equal(payloads[0].xhrErrorState.requestStatus, 500);
+      assert.equal(payloads[0].xhrErrorState.attemptNumber, 0);
+      assert.equal(payloads[0].xhrErrorState.impressionId, sentPayload.envelope.impressionId);
+      assert.equal(payloads[0].xhrErrorState.sequenceNumber, sentPayload.envelope.sequenceNumber);
+      done();
+    });
+  });
+
+  it("validates that stored payloads are replayed on the next activation and keep counting attempts", (done) => {
+    let storedPayloadInfo = createPayloadInfo(0, 2, new Date().getTime());
+    config.storageLimit = 1024 * 1024;
+    storePayload(storedPayloadInfo);
+    core.teardown();
+
+    let replayed = false;
+    config.uploadHandler = (payload: string, onSuccess: UploadCallback, onFailure?: UploadCallback) => {
+      if (payload === storedPayloadInfo.payload && !replayed) {
+        replayed = true;
+        onFailure(503);
+        core.teardown();
+        claimStoredPayloads((payloads: IDroppedPayloadInfo[]) => {
+          assert.equal(payloads.length, 1);
+          assert.equal(payloads[0].payload, storedPayloadInfo.payload);
+          assert.equal(payloads[0].xhrErrorState.requestStatus, 503);
+          assert.equal(payloads[0].xhrErrorState.attemptNumber, 3);
+          done();
+        });
+      } else if (payload !== storedPayloadInfo.payload) {
+        onSuccess(200);
+      }
+    };
+    activateCore();
+  });
+
+  it("validates that payloads are only claimed once the page that keeps retrying them is gone", (done) => {
+    let now = new Date().getTime();
+    jasmine.clock().mockDate(new Date(now));
+    config.storageLimit = 1024 * 1024;
+    storePayload(createPayloadInfo(0, 0, now), "OpenImpression");
+    storePayload(createPayloadInfo(1, 0, now));
+
+    let claimedSequenceNumbers: number[][] = [];
+    let collect = (payloads: IDroppedPayloadInfo[]) => {
+      claimedSequenceNumbers.push(payloads.map((payloadInfo: IDroppedPayloadInfo) => payloadInfo.xhrErrorState.sequenceNumber));
+    };
+    claimStoredPayloads(collect);
+    jasmine.clock().mockDate(new Date(now + config.retryMaxDelay * 2 + 1));
+    claimStoredPayloads(collect);
+
+    assert.deepEqual(claimedSequenceNumbers, [[1], [0]]);
+    config.storageLimit = 0;
+    done();
+  });
+
+  it("validates that storage drops payloads over the size and age limits", (done) => {
+    let now = new Date().getTime();
+    let expiredPayloadInfo = createPayloadInfo(0, 0, now - config.storageMaxAge - 1);
+    let oldestPayloadInfo = createPayloadInfo(1, 0, now);
+    let olderPayloadInfo = createPayloadInfo(2, 0, now);
+    let newestPayloadInfo = createPayloadInfo(3, 0, now);
+    config.storageLimit = olderPayloadInfo.payload.length + newestPayloadInfo.payload.length;
+    storePayload(expiredPayloadInfo);
+    storePayload(oldestPayloadInfo);
+    storePayload(olderPayloadInfo);
+    storePayload(newestPayloadInfo);
+
+    claimStoredPayloads((payloads: IDroppedPayloadInfo[]) => {
+      assert.equal(payloads.length, 2);
+      assert.equal(payloads[0].xhrErrorState.sequenceNumber, 2);
+      assert.equal(payloads[1].xhrErrorState.sequenceNumber, 3);
+      done();
+    });
+  });
+
+  function createPayloadInfo(sequenceNumber: number, attemptNumber: number, time: number): IDroppedPayloadInfo {
+    let envelope: IEnvelope = {
+      clarityId: "StoredClarityId",
+      identityMode: "cookie",
+      impressionId: mockImpressionId,
+      url: window.location.href,
+      version: "0.0.0",
+      time: 0,
+      sequenceNumber,
+      sessionId: "StoredSessionId",
+      pageNumber: 1,
+      firstEventId: sequenceNumber,
+      lastEventId: sequenceNumber,
+      eventCount: 1,
+      emittedEventCount: sequenceNumber + 1,
+      deliveredEventCount: 0
+    };
+    let event: IEvent = { id: sequenceNumber, time: 0, type: "StoredMockEvent", state: {} };
+    let uncompressed = JSON.stringify({ envelope, events: [event] });
+    return {
+      payload: compress(uncompressed),
+      envelope,
+      xhrErrorState: {
+        type: Instrumentation.XhrError,
+        requestStatus: 0,
+        impressionId: mockImpressionId,
+        sequenceNumber,
+        compressedLength: 0,
+        rawLength: uncompressed.length,
+        firstEventId: sequenceNumber,
+        lastEventId: sequenceNumber,
+        attemptNumber,
+        retryDecision: RetryDecision.Scheduled,
+        retryDelay: 0
+      },
+      time
+    };
+  }
+});
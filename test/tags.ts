@@ -0,0 +1,102 @@
+import { identify, setTag } from "../src/clarity";
+import uncompress from "../src/uncompress";
+import { cleanupFixture, getAllSentBytes, getEventsByType, observeEvents, setupFixture, triggerMockEvent } from "./utils";
+
+import * as chai from "chai";
+
+let assert = chai.assert;
+
+describe("Tags Tests", () => {
+  let usedTags: string[];
+
+  beforeEach(() => {
+    usedTags = [];
+    setupFixture();
+  });
+
+  afterEach(() => {
+    for (let key of usedTags) {
+      setTag(key, null);
+    }
+    cleanupFixture();
+  });
+
+  it("validates that identify attaches user id and traits to every following envelope", (done) => {
+    let stopObserving = observeEvents();
+    usedTags = ["tenant", "build"];
+    identify("HashedUserId", { tenant: "contoso", build: 42 });
+    triggerMockEvent();
+    let firstEnvelope = getLastEnvelope();
+    triggerMockEvent();
+    let secondEnvelope = getLastEnvelope();
+
+    let events = stopObserving();
+    let identifyEvents = getEventsByType(events, "Identify");
+    let tagEvents = getEventsByType(events, "Tag");
+    assert.equal(firstEnvelope.userId, "HashedUserId");
+    assert.equal(firstEnvelope.tags["tenant"], "contoso");
+    assert.equal(firstEnvelope.tags["build"], "42");
+    assert.equal(secondEnvelope.userId, "HashedUserId");
+    assert.equal(secondEnvelope.tags["tenant"], "contoso");
+    assert.equal(identifyEvents.length, 1);
+    assert.equal(identifyEvents[0].state.userId, "HashedUserId");
+    assert.equal(tagEvents.length, 2);
+    done();
+  });
+
+  it("validates that tag changes are emitted on the timeline and removed tags leave the envelope", (done) => {
+    let stopObserving = observeEvents("Tag");
+    usedTags = ["experiment"];
+    setTag("experiment", "A");
+    setTag("experiment", "A");
+    setTag("experiment", "B");
+    triggerMockEvent();
+    let changedEnvelope = getLastEnvelope();
+    setTag("experiment", null);
+    triggerMockEvent();
+    let removedEnvelope = getLastEnvelope();
+
+    let events = stopObserving();
+    assert.equal(events.length, 3);
+    assert.equal(events[0].state.value, "A");
+    assert.equal(events[1].state.value, "B");
+    assert.equal(events[2].state.key, "experiment");
+    assert.equal(events[2].state.value, null);
+    assert.equal(changedEnvelope.tags["experiment"], "B");
+    assert.equal(removedEnvelope.tags, undefined);
+    done();
+  });
+
+  it("validates that invalid and excessive tags are rejected and reported", (done) => {
+    let stopObserving = observeEvents("Instrumentation");
+    let longValue = new Array(300).join("x");
+    for (let i = 0; i < 21; i++) {
+      usedTags.push(`tag${i}`);
+      setTag(`tag${i}`, i);
+    }
+    setTag("", "empty key");
+    setTag("long", longValue);
+    setTag("object", {} as any);
+    identify("");
+    triggerMockEvent();
+
+    let events = stopObserving();
+    let envelope = getLastEnvelope();
+    assert.equal(events.length, 5);
+    assert.equal(events[0].state.type, Instrumentation.TagRejected);
+    assert.equal(events[0].state.key, "tag20");
+    assert.equal(events[1].state.key, "");
+    assert.equal(events[2].state.key, "long");
+    assert.equal(events[3].state.key, "object");
+    assert.equal(events[4].state.key, null);
+    assert.equal(Object.keys(envelope.tags).length, 20);
+    assert.equal(envelope.tags["long"], undefined);
+    done();
+  });
+
+  function getLastEnvelope(): IEnvelope {
+    let sentBytes = getAllSentBytes();
+    let payload: IPayload = JSON.parse(uncompress(JSON.parse(sentBytes[sentBytes.length - 1])));
+    return payload.envelope;
+  }
+});
@@ -19,11 +19,30 @@ XMLHttpRequest.prototype.send = (data: any) => {
   sentBytes.push(data);
 };
 
+// Residual payloads are sent through the beacon on teardown, so store them the same way
+// Tests can mock a browser that rejects beacons by toggling the accept flag
+let beaconAccepted = true;
+
+export function setBeaconAccepted(accepted: boolean): void {
+  beaconAccepted = accepted;
+}
+
+navigator.sendBeacon = (url: string, data?: any): boolean => {
+  if (beaconAccepted) {
+    sentBytes.push(data);
+  }
+  return beaconAccepted;
+};
+
 // Make config uri non-empty, so that Clarity executes send
 // Allow instrumentation events
+// Don't keep undelivered payloads between activations, so that they don't leak from one test into another
+// Hold off retries of undelivered payloads, unless test sets up the retry timing that it expects
 let customConfig: IConfig = {
   uploadUrl: "https://www.claritytest.com/test",
-  instrument: true
+  instrument: true,
+  storageLimit: 0,
+  retryDelay: 60 * 60 * 1000
 };
 
 start(customConfig);
@@ -0,0 +1,68 @@
+// Uploads recorded from the script, as the server receives them: the raw request body along with the codec and
+// the checksum that the upload names. First impression uploads with every built-in codec, including compact events,
+// and ends with the final payload that carries the manifest, while the second impression is still recording.
+export interface IRecordedUpload {
+  body: string;
+  codec: string;
+  checksum: string;
+}
+
+export const RecordedUploads: IRecordedUpload[] = [
+  {
+    body: "\"N4IgpgdgbmA2D2AHMIBcoDGsCGAnAlgC4CeAkgCZogDsAHAEzkBGYAbAAwbMAs3AzPWwBObrQCM5Wu3ZhuYAGbyArORQAaEPlURCRYgFl4" +
+      "qqhnjwA1vnWaAtolxgAzo/zwIFKkK9h2c9n3JWcm5salZaamp6VmoQ0Xp5DBD2EA0AV1xYKgALQkJER1QAeiKAd3KAOiw8PURsAHMwKvgbIt" +
+      "SQGFwXNyp2CrEKoXbdGxRUMT5aDUcwAEc0yAwwADk0mxZcNHZpp273SlQQbiFsJiShWi95Xj4Q2mwZeljo+TAxWkkxdrrG1fWwTaoegaeT4L" +
+      "qEACiMB0HlQ2xAOEckOhhFhYg0YBRAGF4GkdGhgeAbERCGByFDIIQcXjCASNKpYPhOmSKTpqfi4QBfDEoxxoADaoC0Ww0IzGE2oouIyCoADU" +
+      "rKVEPBcLTpoRsKS0KAoAqlSqtSAAB4ikDEE2lLSEbJoMT0KQabJgfD1XJoKLsbkgcjwDBrSkGi3kK02u3wx3O11A7jST3kRD4G0aHUuJj4Rk" +
+      "kKjJ/BMWAoTncoUHdEgMU2viSkvSsYgLFpJEtdpIjVjUAQbCjEyOjDmXGqjrYWALG35gC6nKAA\"",
+    codec: "lz-base64",
+    checksum: "c1357ff3"
+  },
+  {
+    body: "\"{\\\"envelope\\\":{\\\"clarityId\\\":\\\"782dbe60cdb4432a9481d800e4eff5de\\\",\\\"identityMode\\\":\\\"coo" +
+      "kie\\\",\\\"impressionId\\\":\\\"999e04e03d6d4a768772674a482fc4a0\\\",\\\"url\\\":\\\"https://www.claritypag" +
+      "e.com/\\\",\\\"version\\\":\\\"0.1.9\\\",\\\"time\\\":140,\\\"sequenceNumber\\\":1,\\\"sessionId\\\":\\\"49a" +
+      "bc49899f4434a8a0e27426fe18d81\\\",\\\"pageNumber\\\":2,\\\"firstEventId\\\":2,\\\"lastEventId\\\":2,\\\"even" +
+      "tCount\\\":1,\\\"emittedEventCount\\\":3,\\\"deliveredEventCount\\\":2},\\\"events\\\":[{\\\"id\\\":2,\\\"ti" +
+      "me\\\":140,\\\"type\\\":\\\"Pointer\\\",\\\"state\\\":{\\\"index\\\":1,\\\"event\\\":\\\"click\\\",\\\"point" +
+      "er\\\":\\\"mouse\\\",\\\"x\\\":120,\\\"y\\\":340,\\\"width\\\":1,\\\"height\\\":1,\\\"pressure\\\":1,\\\"til" +
+      "tX\\\":0,\\\"tiltY\\\":0,\\\"target\\\":4,\\\"buttons\\\":0}}]}\"",
+    codec: "none",
+    checksum: "444845a5"
+  },
+  {
+    body: "\"N4IgpgdgbmA2D2AHMIBcoDGsCGAnAlgC4CeAkgCZogDsAHAEzkBGYAbAAwbMAs3AzPWwBObrQCM5Wu3ZhuYAGbyArORQAaEPlURCRYgFl4" +
+      "qqhnjwA1vnWaAtolxgAzo/zwIFKkK9h2c9n3JWcm5salZaamp6VmoQ0Xp5DBD2EA0AV1xYKgALQkJER1QAeiKAd3KAOiw8PURsAHMwKvgbIt" +
+      "SQGFwXNyp2CrEKoXbdGxRUMW4xDUcwAEc0yAwwADk0mxZcNHppp273SlQQbiFsJiShWi95Xj4Q2mwZeljo+TAxWkkxdrrG1fWwTaobYgeT4L" +
+      "qEACiMB0HlQfA0OEckOhhFh3A0YBRAGF4GkdFsMTYiIQwOQoZBCDi8YQ0EoNKpYPhOqTyToqfi4dMMNkwDZsGgxABfDEoxxoADa4vhE3Yaim" +
+      "EDSsFgGhsuJmqpgqQVSrlfFlfCUsu1yuNalN5sVyu4AF01OL0RMpiAsWkkS1UqAINhRlRHBhcPAle0oNhYAstoLrdbBUA=\"",
+    codec: "lz-base64",
+    checksum: "fa2e67e7"
+  },
+  {
+    body: "\"H4sIAAAAAAAAA1VRQW6DMBD8y5wtYsAB29cohx7aD1Q9GLy0VgFTbIjSiL9XTlM1ue2OdmZndy6gcaXeTwR9Qdub2cXzk4VGLQvbUMVb2w" +
+      "hRFkYJmVvJOQnqur0lMDhLY3Tx/OwtQaP1/tNd8WGaKQTnx6uSUoq4IF7aygpTV7Kui6oWRsiia4XhYFjmHhofMU5B73an0ym7WZnMO2WtH3" +
+      "ZgWGlOmtDgWZ4pMEQ3EHQuCoZAXwuNLb0sQ0MzdJmgfw9CmaYVSirVCVEKIw2nohZF1VEurczBkFb9sQuGzs0hHlcaYxLYM/TmsadUH/wyRu" +
+      "icgQYXI9njHVoxWOrdSvMjvt9u7AD9eoH71bs7Jp5THjgsIfoBDCGaeA1oNGkG799uSg8x/ULQ5ba9bT81yDkMyQEAAA==\"",
+    codec: "gzip-base64",
+    checksum: "0c39c835"
+  },
+  {
+    body: "\"N4IgpgdgbmA2D2AHMIBcoDGsCGAnAlgC4CeAkgCZogDsAHAEzkBGYAbAAwbMAs3AzPWwBObrQCM5Wu3ZhuYAGbyArORQAaEPlURCRYgFl4" +
+      "qqhnjwA1vnWaAtolxgAzo/zwIFKkK9h2c9n3JWcm5salZaamp6VmoQ0Xp5DBD2EA0AV1xYKgALQkJER1QAeiKAd3KAOiw8PURsAHMwKvgbIt" +
+      "SQGFwXNyp2CrEKoXbdGxRUMVo+DUcwAEc0yAwwADk0mxZcNG5pp273SlQQbiFsJiShWi95Xj4Q2mwZeljo+TAJyTF2usbV9bBN1D0DTyfBdQ" +
+      "gAURgOg8qFYGhwjghUMIMLh4GRAGF4GkdGgxBowDYiIQwORIZBCFicYQ0NQNKpYPhOqTyToqbjYRobNgIPhXoi0KAGUz/qS0ABtcXsNR8AC6" +
+      "so0yAg5HwEHqEoVIHIuCQyAO4tlAF9DQTkY4JaAtGg0SMxhMpiASMgqKQIIjcGsKdhdD1poRvWNQE6xtxjUagA\"",
+    codec: "lz-base64",
+    checksum: "74afc011"
+  },
+  {
+    body: "\"N4IgpgdgbmA2D2AHMIBcoDGsCGAnAlgC4CeAkgCZogDsAHAEzkBGYAbAAwbMAs3AzPWwBObrQCM5Wu3ZhuYAGbyArORQAaEPlURCRYgFl4" +
+      "qqhnjwA1vnWaAtolxgAzo/zwIFE9iZMu7bq28+bno+ZmVqVQwxWm5VVnkwPhANAFdcWCoAC0JCREdUAHoCgHdSgDosPD1EbABzMAr4GwLkkB" +
+      "hcFzcqdjKxMqFW3RsUVGilDUcwAEcUyAwwADkUmxZcNHYJp073SlQQbiEvDAPaISF5XiDsWmwZempg+LBoyTFWmvqllbA11D4NeT4DqEACiM" +
+      "B0HlQGxAOEcoPBhEh0LACIAwvAUjo0GINGAbERCGByGDIIR0ZjCNiNKpYPh2kSSTpyVioQBfXEIxxoADaoC06w0QxG0W4guIyCoqJScKarTh" +
+      "2EJaFAEGwwyok1MEHIAAJ8HYHM5XBBWlBsLBZmhuKzWQBdVlAA\"",
+    codec: "lz-base64",
+    checksum: "eac4ebb0"
+  }
+];
@@ -1,9 +1,10 @@
 import { start, stop } from "../src/clarity";
 import { config } from "../src/config";
 import { addEvent } from "../src/core";
+import { decodePayload } from "../src/decoder";
+import uncompress from "../src/uncompress";
 import { mapProperties } from "../src/utils";
 import { clearSentBytes, getSentBytes } from "./testsetup";
-import uncompress from "./uncompress";
 
 export const MockEventName = "ClarityTestMockEvent";
 
@@ -76,6 +77,38 @@ export function activateCore() {
   triggerSend();
 }
 
+// Plugin records its activation, and then the events of its own type along with the index of their target,
+// unless the test provides a listener of its own
+export function createPluginClass(eventName: string, dependencies?: string[],
+                                  listener?: (evt: Event, context: IPluginContext) => void): IPluginClass {
+  class TestPlugin implements IPlugin {
+    public static dependencies = dependencies;
+    private options: any;
+
+    constructor(private context: IPluginContext) {}
+
+    public activate() {
+      this.context.addEvent(eventName, { action: "activate", options: this.options });
+      this.context.bind(document, eventName, (evt: Event) => {
+        if (listener) {
+          listener(evt, this.context);
+        } else {
+          this.context.addEvent(eventName, { action: evt.type, index: this.context.getNodeIndex(evt.target as Node) });
+        }
+      });
+    }
+
+    public teardown() {
+      return;
+    }
+
+    public reset(options: any) {
+      this.options = options;
+    }
+  }
+  return TestPlugin;
+}
+
 export function resetConfig() {
   mapProperties(originalConfig, null, true, config);
 }
@@ -83,7 +116,7 @@ export function resetConfig() {
 function getEventsFromSentBytes(sentBytes: string[]): IEvent[] {
   let events = [];
   for (let i = 0; i < sentBytes.length; i++) {
-    let payload: IPayload = JSON.parse(uncompress(JSON.parse(sentBytes[i])));
+    let payload: IPayload = decodePayload(JSON.parse(uncompress(JSON.parse(sentBytes[i]))));
     events = events.concat(payload.events);
   }
   return events;
@@ -0,0 +1,140 @@
+import { config } from "../src/config";
+import * as core from "../src/core";
+import uncompress from "../src/uncompress";
+import { resetWorker } from "../src/worker";
+import { activateCore, cleanupFixture, getAllSentBytes, getEventsByType, observeEvents, setupFixture, triggerSend } from "./utils";
+
+import * as chai from "chai";
+
+let assert = chai.assert;
+
+describe("Worker Tests", () => {
+  let originalWorker = window["Worker"];
+  let workers: any[];
+
+  beforeEach(() => {
+    setupFixture();
+    core.teardown();
+    resetWorker();
+    window["Worker"] = undefined;
+    workers = [];
+    config.useWorker = true;
+    activateCore();
+
+    // Compressor checks the time after every thousand characters, so this makes it yield at each check
+    config.timeToYield = -1;
+  });
+
+  afterEach(cleanupFixture);
+  afterEach(() => {
+    window["Worker"] = originalWorker;
+    resetWorker();
+  });
+
+  it("validates that payloads are compressed in slices on the main thread, when workers are unavailable", (done) => {
+    let eventName = "WorkerSlicedCompressionTest";
+    let stopObserving = observeEvents(eventName);
+    let bytesLengthBefore = getAllSentBytes().length;
+    core.addEvent(eventName, { text: new Array(10000).join("x") });
+    core.addEvent(eventName, {});
+    jasmine.clock().tick(config.delay);
+    assert.equal(getAllSentBytes().length, bytesLengthBefore);
+
+    let events = stopObserving();
+    let payloads: IPayload[] = getAllSentBytes().map((sentBytes: string) => JSON.parse(uncompress(JSON.parse(sentBytes))));
+    assert.equal(events.length, 2);
+    assert.equal(events[0].state.text.length, 9999);
+    assert.equal(payloads[payloads.length - 1].envelope.sequenceNumber, payloads.length - 1);
+    done();
+  });
+
+  it("validates that payloads that are still being compressed are sent on teardown", (done) => {
+    let eventName = "WorkerFlushOnTeardownTest";
+    let bytesLengthBefore = getAllSentBytes().length;
+    core.addEvent(eventName, { text: new Array(10000).join("x") });
+    jasmine.clock().tick(config.delay);
+    core.addEvent(eventName, {});
+    core.teardown();
+
+    let payloads: IPayload[] = getAllSentBytes().slice(bytesLengthBefore).map(
+      (sentBytes: string) => JSON.parse(uncompress(JSON.parse(sentBytes))));
+    let events: IEvent[] = [].concat.apply([], payloads.map((payload: IPayload) => payload.events));
+    assert.equal(payloads[0].envelope.sequenceNumber + 1, payloads[1].envelope.sequenceNumber);
+    assert.equal(getEventsByType(events, eventName).length, 2);
+    assert.equal(getEventsByType(payloads[0].events, eventName).length, 1);
+    done();
+  });
+
+  it("validates that the worker compresses and uploads payloads, without uploads from the main thread", (done) => {
+    useFakeWorker();
+    let bytesLengthBefore = getAllSentBytes().length;
+    core.addEvent("WorkerUploadTest", {});
+    jasmine.clock().tick(config.delay);
+    let compressRequest = workers[0].requests[0];
+    workers[0].respond({ id: compressRequest.id, compressed: "WorkerCompressed", codec: compressRequest.codec });
+    let uploadRequest = workers[0].requests[1];
+    workers[0].respond({ id: compressRequest.id, status: 200 });
+
+    assert.equal(workers.length, 1);
+    assert.isString(compressRequest.payload);
+    assert.equal(uploadRequest.id, compressRequest.id);
+    assert.equal(uploadRequest.uploadUrl, config.uploadUrl);
+    assert.isString(uploadRequest.checksum);
+    assert.equal(getAllSentBytes().length, bytesLengthBefore);
+    done();
+  });
+
+  it("validates that the main thread takes over when the worker fails, and retries the uploads that it has started", (done) => {
+    useFakeWorker();
+    let bytesLengthBefore = getAllSentBytes().length;
+    core.addEvent("WorkerUploadingTest", {});
+    jasmine.clock().tick(config.delay);
+    core.addEvent("WorkerCompressingTest", {});
+    jasmine.clock().tick(config.delay);
+    let uploadingRequest = workers[0].requests[0];
+    workers[0].respond({ id: uploadingRequest.id, compressed: "WorkerCompressed", codec: uploadingRequest.codec });
+
+    // Blob workers that CSP blocks report an error, after the page has started using them
+    workers[0].onerror({ preventDefault: () => { return; } } as ErrorEvent);
+    jasmine.clock().tick(0);
+    let takenOverBytes = getAllSentBytes().slice(bytesLengthBefore);
+    jasmine.clock().tick(config.retryMaxDelay);
+    let retriedBytes = getAllSentBytes().slice(bytesLengthBefore + takenOverBytes.length);
+    let takenOverPayload: IPayload = JSON.parse(uncompress(JSON.parse(takenOverBytes[0])));
+
+    assert.isTrue(workers[0].terminated);
+    assert.equal(takenOverBytes.length, 1);
+    assert.equal(takenOverPayload.events[0].type, "WorkerCompressingTest");
+    assert.deepEqual(retriedBytes, [JSON.stringify("WorkerCompressed")]);
+    done();
+  });
+
+  // Worker stands in for the real one, which can't load in tests, while tests respond on its behalf
+  function useFakeWorker() {
+    spyOn(URL, "createObjectURL").and.returnValue("blob:worker");
+    class FakeWorker {
+      public requests: ICompressionRequest[] = [];
+      public terminated = false;
+      public onmessage: (evt: MessageEvent) => void;
+      public onerror: (evt: ErrorEvent) => void;
+
+      constructor() {
+        workers.push(this);
+      }
+
+      public postMessage(request: ICompressionRequest) {
+        this.requests.push(request);
+      }
+
+      public terminate() {
+        this.terminated = true;
+      }
+
+      public respond(response: ICompressionResponse) {
+        this.onmessage({ data: response } as MessageEvent);
+      }
+    }
+    window["Worker"] = FakeWorker;
+    resetWorker();
+  }
+});
@@ -0,0 +1,217 @@
+import { readUpload, reassemble } from "../src/ingestion";
+
+// Node modules, whose typings aren't part of this project
+declare const require;
+declare const module;
+declare const process;
+
+// Local ingestion server for development. It accepts uploads from a page, whose config.uploadUrl points at it,
+// decodes them, appends them to a file per impression and lists impressions and their events as JSON:
+//   POST <any other path>       upload, with the codec and the checksum in the headers or in the query string
+//   GET /impressions            summary of every impression that has sent at least one payload
+//   GET /impressions/<id>       timeline of a single impression
+//   GET, POST, DELETE /failures list, add or clear simulated failures
+// Simulated failures let the retry paths run end to end: each one applies to the given number of uploads that follow,
+// which either get the status, along with Retry-After if set, or time out with the connection closed without response.
+// tslint:disable:no-var-requires
+const fs = require("fs");
+const http = require("http");
+const path = require("path");
+const url = require("url");
+// tslint:enable:no-var-requires
+
+export interface IDevServerOptions {
+  port?: number;
+  directory?: string; /* Directory that uploads are stored in */
+  timeoutDelay?: number; /* Milliseconds after which the uploads that simulate a timeout are dropped */
+}
+
+export interface ISimulatedFailure {
+  status?: number; /* HTTP status, which is ignored for timeouts */
+  retryAfter?: number; /* Seconds in the Retry-After header */
+  timeout?: boolean;
+  count?: number; /* Number of uploads to fail, 1 by default */
+}
+
+const defaultOptions: IDevServerOptions = {
+  port: 3000,
+  directory: "build/uploads",
+  timeoutDelay: 30000
+};
+
+export function startDevServer(customOptions?: IDevServerOptions) {
+  let options: IDevServerOptions = {};
+  for (let key in defaultOptions) {
+    if (defaultOptions.hasOwnProperty(key)) {
+      options[key] = customOptions && customOptions[key] !== undefined ? customOptions[key] : defaultOptions[key];
+    }
+  }
+
+  let failures: ISimulatedFailure[] = [];
+  let server = http.createServer((request, response) => {
+    let requestUrl = url.parse(request.url, true);
+    let parts = requestUrl.pathname.split("/").filter((part: string) => part.length > 0);
+    readBody(request, (body: string) => {
+      setCorsHeaders(response);
+      if (request.method === "OPTIONS") {
+        respond(response, 204, null);
+      } else if (parts[0] === "failures") {
+        handleFailures(request.method, body, failures, response);
+      } else if (parts[0] === "impressions" && request.method === "GET") {
+        handleImpressions(options.directory, parts[1], response);
+      } else if (request.method === "POST") {
+        handleUpload(request, requestUrl.query, body, failures, options, response);
+      } else {
+        respond(response, 404, { error: `Not found: ${request.method} ${requestUrl.pathname}` });
+      }
+    });
+  });
+  server.listen(options.port, () => {
+    log(`Listening on http://localhost:${options.port}, storing uploads in ${path.resolve(options.directory)}`);
+  });
+  return server;
+}
+
+function handleUpload(request, query, body: string, failures: ISimulatedFailure[], options: IDevServerOptions, response) {
+  let failure = takeFailure(failures);
+  if (failure && failure.timeout) {
+    log(`Simulating timeout of an upload`);
+    setTimeout(() => { request.socket.destroy(); }, options.timeoutDelay);
+    return;
+  } else if (failure) {
+    log(`Simulating status ${failure.status} of an upload`);
+    if (failure.retryAfter) {
+      response.setHeader("Retry-After", String(failure.retryAfter));
+    }
+    respond(response, failure.status || 500, { error: "Simulated failure" });
+    return;
+  }
+
+  let codec = request.headers["x-clarity-codec"] || query.codec;
+  let checksum = request.headers["x-clarity-checksum"] || query.checksum;
+  readUpload(body, codec, checksum, (error: Error, payload?: IPayload) => {
+    if (error) {
+      log(`Rejected upload: ${error.message}`);
+      respond(response, 400, { error: error.message });
+      return;
+    }
+
+    let envelope = payload.envelope;
+    ensureDirectory(options.directory);
+    fs.appendFileSync(getImpressionFile(options.directory, envelope.impressionId), `${JSON.stringify(payload)}\n`);
+    log(`Stored payload #${envelope.sequenceNumber} of ${envelope.impressionId} with ${payload.events.length} events`);
+    respond(response, 200, { impressionId: envelope.impressionId, sequenceNumber: envelope.sequenceNumber });
+  });
+}
+
+// Timeline is reassembled from every payload that the impression has sent, so it also shows the gaps and duplicates
+function handleImpressions(directory: string, impressionId: string, response) {
+  let files: string[] = fs.existsSync(directory) ? fs.readdirSync(directory) : [];
+  let impressionIds = files.filter((file: string) => /\.jsonl$/.test(file)).map((file: string) => file.replace(/\.jsonl$/, ""));
+  if (impressionId) {
+    if (impressionIds.indexOf(impressionId) < 0) {
+      respond(response, 404, { error: `Unknown impression: ${impressionId}` });
+    } else {
+      respond(response, 200, readTimeline(directory, impressionId));
+    }
+    return;
+  }
+
+  respond(response, 200, impressionIds.map((id: string) => {
+    let timeline = readTimeline(directory, id);
+    let lastEnvelope = timeline.envelopes[timeline.envelopes.length - 1];
+    return {
+      impressionId: id,
+      url: lastEnvelope.url,
+      payloadCount: timeline.envelopes.length,
+      eventCount: timeline.events.length,
+      missingSequenceNumbers: timeline.missingSequenceNumbers,
+      duplicateCount: timeline.duplicateCount,
+      ended: timeline.ended
+    };
+  }));
+}
+
+function handleFailures(method: string, body: string, failures: ISimulatedFailure[], response) {
+  if (method === "POST") {
+    let failure: ISimulatedFailure;
+    try {
+      failure = JSON.parse(body);
+    } catch (e) {
+      respond(response, 400, { error: `Failure isn't valid JSON: ${e.message}` });
+      return;
+    }
+    failure.count = failure.count || 1;
+    failures.push(failure);
+  } else if (method === "DELETE") {
+    failures.splice(0, failures.length);
+  }
+  respond(response, 200, failures);
+}
+
+function takeFailure(failures: ISimulatedFailure[]): ISimulatedFailure {
+  let failure = failures[0] || null;
+  if (failure && --failure.count <= 0) {
+    failures.shift();
+  }
+  return failure;
+}
+
+function readTimeline(directory: string, impressionId: string): IImpressionTimeline {
+  let lines: string[] = fs.readFileSync(getImpressionFile(directory, impressionId), "utf8").split("\n");
+  let payloads = lines.filter((line: string) => line.length > 0).map((line: string) => JSON.parse(line));
+  return reassemble(payloads)[0];
+}
+
+function getImpressionFile(directory: string, impressionId: string): string {
+  return path.join(directory, `${impressionId.replace(/[^\w-]/g, "_")}.jsonl`);
+}
+
+function ensureDirectory(directory: string) {
+  let resolved = path.resolve(directory);
+  let missing: string[] = [];
+  while (!fs.existsSync(resolved)) {
+    missing.unshift(resolved);
+    resolved = path.dirname(resolved);
+  }
+  for (let dir of missing) {
+    fs.mkdirSync(dir);
+  }
+}
+
+function readBody(request, callback: (body: string) => void) {
+  let chunks: string[] = [];
+  request.setEncoding("utf8");
+  request.on("data", (chunk: string) => { chunks.push(chunk); });
+  request.on("end", () => { callback(chunks.join("")); });
+}
+
+// Pages under development are served from another origin, and uploads carry custom headers, so they are preflighted
+function setCorsHeaders(response) {
+  response.setHeader("Access-Control-Allow-Origin", "*");
+  response.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+  response.setHeader("Access-Control-Allow-Headers", "Content-Type, X-Clarity-Codec, X-Clarity-Checksum");
+  response.setHeader("Access-Control-Expose-Headers", "Retry-After");
+}
+
+function respond(response, status: number, body: any) {
+  response.statusCode = status;
+  if (body !== null) {
+    response.setHeader("Content-Type", "application/json");
+    response.end(JSON.stringify(body, null, 2));
+  } else {
+    response.end();
+  }
+}
+
+function log(message: string) {
+  console.log(`[clarity-devserver] ${message}`);
+}
+
+// Port and directory can be passed on the command line: node build/tools/devserver.js [port] [directory]
+if (require.main === module) {
+  startDevServer({
+    port: process.argv[2] ? Number(process.argv[2]) : undefined,
+    directory: process.argv[3]
+  });
+}